@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AccountPool, parseAccountCredentials, type SmtpAccount } from './accounts.js';
+import { MemoryQuotaStore, QuotaTracker } from './quota.js';
+
+function account(user: string, dailyLimit?: number): SmtpAccount {
+    return {
+        user,
+        from: user,
+        authType: 'login',
+        transportOptions: {},
+        transporter: {} as SmtpAccount['transporter'],
+        dailyLimit,
+        unavailableUntil: 0,
+    };
+}
+
+describe('parseAccountCredentials', () => {
+    it('should treat top-level credentials as a single account', () => {
+        const credentials = { EMAIL_USER: 'a@gmail.com', EMAIL_PASS: 'x' };
+        expect(parseAccountCredentials(credentials)).toEqual([credentials]);
+    });
+
+    it('should merge each account over the shared credentials', () => {
+        expect(parseAccountCredentials({
+            EMAIL_AUTH_TYPE: 'oauth2',
+            EMAIL_CLIENT_ID: 'client',
+            EMAIL_ACCOUNTS: '[{"EMAIL_USER":"a@gmail.com","EMAIL_DAILY_LIMIT":500}]',
+        })).toEqual([{
+            EMAIL_AUTH_TYPE: 'oauth2',
+            EMAIL_CLIENT_ID: 'client',
+            EMAIL_USER: 'a@gmail.com',
+            EMAIL_DAILY_LIMIT: '500',
+        }]);
+    });
+
+    it.each(['not json', '[]', '{"EMAIL_USER":"a"}', '["a@gmail.com"]'])('should reject %s', value => {
+        expect(() => parseAccountCredentials({ EMAIL_ACCOUNTS: value }))
+            .toThrow('EMAIL_ACCOUNTS must be a JSON array of account credentials');
+    });
+});
+
+describe('AccountPool', () => {
+    const tracker = () => new QuotaTracker(new MemoryQuotaStore());
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should cycle through accounts and skip unavailable ones', () => {
+        const [a, b, c] = [account('a'), account('b'), account('c')];
+        const pool = new AccountPool([a, b, c], tracker());
+
+        expect([pool.select(), pool.select(), pool.select(), pool.select()]).toEqual([a, b, c, a]);
+
+        pool.markUnavailable(b, Date.now() + 60000, 'THROTTLED');
+        expect([pool.select(), pool.select()]).toEqual([c, a]);
+    });
+
+    it('should exclude accounts already tried', () => {
+        const [a, b] = [account('a'), account('b')];
+        const pool = new AccountPool([a, b], tracker());
+
+        expect(pool.select(new Set([a]))).toBe(b);
+        expect(pool.select(new Set([a, b]))).toBeUndefined();
+    });
+
+    it('should prefer the account with the lowest share of its limit', () => {
+        const [a, b] = [account('a', 10), account('b', 100)];
+        const quota = tracker();
+        const pool = new AccountPool([a, b], quota, 'least-used');
+
+        quota.record('a');
+        for (let i = 0; i < 5; i++) {
+            quota.record('b');
+        }
+
+        // a has used 10% of its limit, b 5%
+        expect(pool.select()).toBe(b);
+    });
+
+    it('should stop selecting accounts at their limit until sends leave the 24 hour window', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-03-05T12:00:00Z'));
+        const a = account('a', 1);
+        const pool = new AccountPool([a], tracker());
+
+        expect(pool.select()).toBe(a);
+
+        expect(pool.select()).toBeUndefined();
+        expect(pool.isExhausted(a)).toBe(true);
+        expect(new Date(pool.nextAvailableAt()).toISOString()).toBe('2024-03-06T12:00:00.000Z');
+        expect(pool.health()).toEqual([{ user: 'a', healthy: false, sent: 1, dailyLimit: 1 }]);
+
+        vi.setSystemTime(new Date('2024-03-06T12:00:01Z'));
+        expect(pool.select()).toBe(a);
+    });
+
+    it('should reserve quota on selection until it is released', () => {
+        const a = account('a', 1);
+        const pool = new AccountPool([a], tracker());
+
+        expect(pool.select()).toBe(a);
+        expect(pool.select()).toBeUndefined();
+
+        pool.release(a);
+        expect(pool.health()[0].sent).toBe(0);
+        expect(pool.select()).toBe(a);
+    });
+});
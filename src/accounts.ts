@@ -0,0 +1,212 @@
+/**
+ * Multiple SMTP accounts: parsing, load-balancing and failover state.
+ *
+ * Accounts are configured with the EMAIL_ACCOUNTS credential, a JSON array
+ * of per-account credentials. Without it, the top-level credentials form a
+ * single account.
+ */
+
+import type { Transporter } from 'nodemailer';
+import type { AuthType } from './auth.js';
+import type { QuotaTracker } from './quota.js';
+import type { ConnectionOptions } from './transport.js';
+
+/**
+ * How the next account is chosen
+ * - round-robin: cycle through accounts in order
+ * - least-used:  the account with the lowest share of its quota used
+ */
+export type AccountStrategy = 'round-robin' | 'least-used';
+
+/**
+ * Account selection options, configured under `options.accounts`
+ */
+export interface AccountOptions {
+    /** Selection strategy (default: round-robin) */
+    strategy?: AccountStrategy;
+    /** Daily send limit applied to accounts without EMAIL_DAILY_LIMIT (default: unlimited) */
+    dailyLimit?: number;
+}
+
+/**
+ * One SMTP account and its usage
+ */
+export interface SmtpAccount {
+    user: string;
+    from: string;
+    authType: AuthType;
+    transportOptions: ConnectionOptions;
+    transporter: Transporter;
+    /** Sends allowed per 24 hours, or undefined for no limit */
+    dailyLimit?: number;
+    /** Not used for sending before this time (epoch ms) */
+    unavailableUntil: number;
+    lastError?: string;
+}
+
+/**
+ * Health of one account as reported by `getAccountHealth`
+ */
+export interface AccountHealth {
+    user: string;
+    healthy: boolean;
+    /** Sends in the last 24 hours */
+    sent: number;
+    dailyLimit?: number;
+    unavailableUntil?: string;
+    lastError?: string;
+}
+
+/**
+ * Reads the per-account credentials. Each entry of EMAIL_ACCOUNTS is merged
+ * over the top-level credentials, so shared values (e.g. an OAuth2 client)
+ * only need to be given once.
+ *
+ * @param credentials - Provider credentials
+ * @returns Credentials of every account, in order
+ */
+export function parseAccountCredentials(credentials: Record<string, string>): Array<Record<string, string>> {
+    const { EMAIL_ACCOUNTS: accountList, ...shared } = credentials;
+
+    if (!accountList) {
+        return [credentials];
+    }
+
+    let accounts: unknown;
+    try {
+        accounts = JSON.parse(accountList);
+    } catch {
+        throw new Error('EMAIL_ACCOUNTS must be a JSON array of account credentials');
+    }
+
+    if (!Array.isArray(accounts) || accounts.length === 0
+        || !accounts.every(account => account && typeof account === 'object' && !Array.isArray(account))) {
+        throw new Error('EMAIL_ACCOUNTS must be a JSON array of account credentials');
+    }
+
+    return accounts.map(account => ({
+        ...shared,
+        ...Object.fromEntries(Object.entries(account as Record<string, unknown>).map(([key, value]) => [key, String(value)])),
+    }));
+}
+
+/**
+ * The accounts a provider sends through, with selection and availability
+ */
+export class AccountPool {
+    private next = 0;
+
+    constructor(
+        readonly accounts: SmtpAccount[],
+        private readonly quota: QuotaTracker,
+        private readonly strategy: AccountStrategy = 'round-robin'
+    ) { }
+
+    /**
+     * Whether the account has used up its quota for the current window
+     */
+    isExhausted(account: SmtpAccount): boolean {
+        return account.dailyLimit !== undefined && this.quota.used(account.user) >= account.dailyLimit;
+    }
+
+    private isAvailable(account: SmtpAccount, now: number): boolean {
+        return account.unavailableUntil <= now && !this.isExhausted(account);
+    }
+
+    /**
+     * Picks the next account to send through and reserves one send of its
+     * quota, so concurrent sends cannot exceed the daily limit. Call
+     * `release` if the message is not sent through it after all.
+     *
+     * @param exclude - Accounts already tried for the current message
+     * @returns An available account, or undefined if none is left
+     */
+    select(exclude: Set<SmtpAccount> = new Set()): SmtpAccount | undefined {
+        const account = this.pick(exclude);
+        if (account) {
+            this.quota.record(account.user);
+        }
+        return account;
+    }
+
+    private pick(exclude: Set<SmtpAccount>): SmtpAccount | undefined {
+        const now = Date.now();
+        const candidates = this.accounts.filter(account => !exclude.has(account) && this.isAvailable(account, now));
+
+        if (candidates.length === 0) {
+            return undefined;
+        }
+
+        if (this.strategy === 'least-used') {
+            // Share of the quota used, then raw count; unlimited accounts count as unused
+            const used = (account: SmtpAccount) => this.quota.used(account.user);
+            const share = (account: SmtpAccount) => account.dailyLimit ? used(account) / account.dailyLimit : 0;
+            return candidates.reduce((best, account) => {
+                const diff = share(account) - share(best);
+                return diff < 0 || (diff === 0 && used(account) < used(best)) ? account : best;
+            });
+        }
+
+        for (let i = 0; i < this.accounts.length; i++) {
+            const account = this.accounts[(this.next + i) % this.accounts.length];
+            if (candidates.includes(account)) {
+                this.next = (this.accounts.indexOf(account) + 1) % this.accounts.length;
+                return account;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Records that the server accepted a message; its quota slot was
+     * already reserved by `select`
+     */
+    recordSend(account: SmtpAccount): void {
+        account.lastError = undefined;
+    }
+
+    /**
+     * Gives back the quota slot reserved by `select` for a message that was
+     * not accepted through the account
+     */
+    release(account: SmtpAccount): void {
+        this.quota.release(account.user);
+    }
+
+    /**
+     * Records the outcome of a connection check
+     */
+    recordCheck(account: SmtpAccount, error?: string): void {
+        account.lastError = error;
+    }
+
+    /**
+     * Takes an account out of rotation until `until` (epoch ms)
+     */
+    markUnavailable(account: SmtpAccount, until: number, reason: string): void {
+        account.unavailableUntil = Math.max(account.unavailableUntil, until);
+        account.lastError = reason;
+    }
+
+    /**
+     * Earliest time any account can send again (epoch ms)
+     */
+    nextAvailableAt(): number {
+        return Math.min(...this.accounts.map(account => Math.max(
+            account.unavailableUntil,
+            account.dailyLimit !== undefined ? this.quota.availableAt(account.user, account.dailyLimit) : Date.now()
+        )));
+    }
+
+    health(): AccountHealth[] {
+        const now = Date.now();
+        return this.accounts.map(account => ({
+            user: account.user,
+            healthy: this.isAvailable(account, now) && account.lastError === undefined,
+            sent: this.quota.used(account.user),
+            ...(account.dailyLimit !== undefined && { dailyLimit: account.dailyLimit }),
+            ...(account.unavailableUntil > now && { unavailableUntil: new Date(account.unavailableUntil).toISOString() }),
+            ...(account.lastError !== undefined && { lastError: account.lastError }),
+        }));
+    }
+}
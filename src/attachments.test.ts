@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { resolveAttachments, assertMessageSize, attachmentSchema } from './attachments.js';
+
+// Mock @simplens/sdk
+vi.mock('@simplens/sdk', async () => {
+    const { z } = await import('zod');
+    return { z };
+});
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+describe('attachmentSchema', () => {
+    it('should require exactly one content source', () => {
+        expect(attachmentSchema.safeParse({ filename: 'a.txt', content: 'aGk=' }).success).toBe(true);
+        expect(attachmentSchema.safeParse({ filename: 'a.txt' }).success).toBe(false);
+        expect(attachmentSchema.safeParse({
+            filename: 'a.txt',
+            content: 'aGk=',
+            url: 'https://example.com/a.txt',
+        }).success).toBe(false);
+    });
+
+    it('should only accept http and https urls', () => {
+        expect(attachmentSchema.safeParse({ filename: 'a.txt', url: 'http://example.com/a.txt' }).success).toBe(true);
+        expect(attachmentSchema.safeParse({ filename: 'a.txt', url: 'file:///etc/passwd' }).success).toBe(false);
+        expect(attachmentSchema.safeParse({ filename: 'a.txt', url: 'ftp://example.com/a.txt' }).success).toBe(false);
+    });
+});
+
+describe('resolveAttachments', () => {
+    let baseDir: string;
+
+    beforeAll(async () => {
+        baseDir = await mkdtemp(path.join(tmpdir(), 'gmail-attachments-'));
+        await writeFile(path.join(baseDir, 'report.csv'), 'a,b\n1,2\n');
+    });
+
+    afterAll(async () => {
+        await rm(baseDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should decode base64 content and infer the type from the filename', async () => {
+        const [attachment] = await resolveAttachments([{ filename: 'pixel.png', content: PNG_BASE64 }]);
+
+        expect(attachment).toEqual({
+            filename: 'pixel.png',
+            content: Buffer.from(PNG_BASE64, 'base64'),
+            contentType: 'image/png',
+            contentDisposition: 'attachment',
+        });
+    });
+
+    it('should make attachments with a cid inline', async () => {
+        const [attachment] = await resolveAttachments([{ filename: 'logo.png', content: PNG_BASE64, cid: 'logo' }]);
+
+        expect(attachment).toEqual(expect.objectContaining({ cid: 'logo', contentDisposition: 'inline' }));
+    });
+
+    it('should reject invalid base64 content', async () => {
+        await expect(resolveAttachments([{ filename: 'a.txt', content: '<not base64>' }]))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', retryable: false });
+    });
+
+    it('should reject attachments over the size limit', async () => {
+        await expect(resolveAttachments([{ filename: 'pixel.png', content: PNG_BASE64 }], { maxFileSize: 10 }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_TOO_LARGE', retryable: false });
+    });
+
+    it('should reject types outside the allow-list', async () => {
+        await expect(resolveAttachments([{ filename: 'run.exe', content: 'aGk=' }]))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_TYPE_NOT_ALLOWED', retryable: false });
+
+        await expect(resolveAttachments(
+            [{ filename: 'pixel.png', content: PNG_BASE64 }],
+            { allowedTypes: ['application/pdf'] }
+        )).rejects.toMatchObject({ code: 'ATTACHMENT_TYPE_NOT_ALLOWED' });
+    });
+
+    it('should read path attachments inside the base directory', async () => {
+        const [attachment] = await resolveAttachments([{ filename: 'report.csv', path: 'report.csv' }], { baseDir });
+
+        expect(attachment.content).toEqual(Buffer.from('a,b\n1,2\n'));
+        expect(attachment.contentType).toBe('text/csv');
+    });
+
+    it('should refuse path attachments without a base directory or outside it', async () => {
+        await expect(resolveAttachments([{ filename: 'report.csv', path: path.join(baseDir, 'report.csv') }]))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID' });
+
+        await expect(resolveAttachments([{ filename: 'passwd.txt', path: '../../../etc/passwd' }], { baseDir }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID' });
+    });
+
+    it('should fetch url attachments using the response content type', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+            new Response('%PDF-1.4', { headers: { 'content-type': 'application/pdf; charset=binary' } })
+        ));
+
+        const [attachment] = await resolveAttachments([{ filename: 'invoice', url: 'https://example.com/invoice' }], { allowedHosts: ['example.com'] });
+
+        expect(attachment.contentType).toBe('application/pdf');
+        expect(attachment.content).toEqual(Buffer.from('%PDF-1.4'));
+    });
+
+    it('should report url fetch failures as retryable', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNRESET')));
+
+        await expect(resolveAttachments([{ filename: 'invoice.pdf', url: 'https://example.com/invoice.pdf' }], { allowedHosts: ['example.com'] }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_FETCH_FAILED', retryable: true });
+    });
+
+    it('should refuse url attachments without an allow-list or on other hosts', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(resolveAttachments([{ filename: 'creds.json', url: 'http://169.254.169.254/latest/meta-data' }]))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', retryable: false });
+        await expect(resolveAttachments([{ filename: 'creds.json', url: 'http://169.254.169.254/latest/meta-data' }], { allowedHosts: ['example.com'] }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', message: 'Attachment "creds.json" url is not allowed: Host 169.254.169.254 is not allowed' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should refuse redirects to hosts outside the allow-list', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+            new Response(null, { status: 302, headers: { location: 'http://localhost:8080/admin' } })
+        ));
+
+        await expect(resolveAttachments([{ filename: 'invoice.pdf', url: 'https://example.com/invoice.pdf' }], { allowedHosts: ['example.com'] }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', message: 'Attachment "invoice.pdf" url is not allowed: Host localhost is not allowed' });
+    });
+
+    it('should refuse unsupported protocols as non-retryable', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+            new Response(null, { status: 302, headers: { location: 'file:///etc/passwd' } })
+        ));
+
+        await expect(resolveAttachments([{ filename: 'passwd.txt', url: 'ftp://example.com/passwd.txt' }], { allowedHosts: ['example.com'] }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', retryable: false });
+        await expect(resolveAttachments([{ filename: 'invoice.pdf', url: 'https://example.com/invoice.pdf' }], { allowedHosts: ['example.com'] }))
+            .rejects.toMatchObject({ code: 'ATTACHMENT_INVALID', message: 'Attachment "invoice.pdf" url is not allowed: Unsupported URL protocol "file:"' });
+    });
+});
+
+describe('assertMessageSize', () => {
+    it('should account for base64 overhead of attachments', () => {
+        const mailOptions = {
+            text: 'hello',
+            attachments: [{ filename: 'a.bin', content: Buffer.alloc(3000) }],
+        };
+
+        expect(() => assertMessageSize(mailOptions, { maxMessageSize: 4200 })).not.toThrow();
+        expect(() => assertMessageSize(mailOptions, { maxMessageSize: 4000 }))
+            .toThrow(expect.objectContaining({ code: 'MESSAGE_TOO_LARGE', retryable: false }));
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * File attachments supplied in notification content.
+ *
+ * Attachments are resolved to in-memory buffers before sending so every
+ * size and MIME type limit can be enforced up front, and an oversize
+ * message fails fast with a non-retryable error instead of being bounced
+ * by the SMTP server.
+ */
+
+import { readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { SendMailOptions } from 'nodemailer';
+import { z } from '@simplens/sdk';
+import { DeliveryError } from './errors.js';
+import { fetchWithLimits, HostNotAllowedError, ResponseTooLargeError, UnsupportedProtocolError } from './fetch.js';
+
+/**
+ * A nodemailer attachment entry
+ */
+type MailAttachment = NonNullable<SendMailOptions['attachments']>[number];
+
+/**
+ * Attachment schema. Exactly one of `content` (base64), `path` or `url`
+ * must be supplied.
+ */
+export const attachmentSchema = z.object({
+    filename: z.string().min(1),
+    content_type: z.string().optional(),
+    content: z.string().optional(),
+    path: z.string().optional(),
+    url: z.string().url().refine(url => /^https?:/i.test(url), { message: 'Only http and https URLs are supported' }).optional(),
+    cid: z.string().optional(),
+    disposition: z.enum(['attachment', 'inline']).optional(),
+}).refine(
+    attachment => [attachment.content, attachment.path, attachment.url].filter(v => v !== undefined).length === 1,
+    { message: 'Exactly one of content, path or url is required' }
+);
+
+export type NotificationAttachment = z.infer<typeof attachmentSchema>;
+
+/**
+ * Attachment limits, configured under `options.attachments`
+ */
+export interface AttachmentOptions {
+    /** Maximum size of a single attachment in bytes (default: 10 MB) */
+    maxFileSize?: number;
+    /** Maximum size of the whole encoded message in bytes (default: 25 MB, Gmail's limit) */
+    maxMessageSize?: number;
+    /** Allowed MIME types; `type/*` wildcards are supported */
+    allowedTypes?: string[];
+    /** Directory that `path` attachments must live in. Path attachments are refused when unset. */
+    baseDir?: string;
+    /** Timeout in milliseconds for `url` attachments (default: 10000) */
+    fetchTimeout?: number;
+    /**
+     * Hosts `url` attachments (and their redirects) may be fetched from;
+     * `*.example.com` matches subdomains. URL attachments are refused when unset.
+     */
+    allowedHosts?: string[];
+}
+
+export const DEFAULT_ATTACHMENT_OPTIONS: Required<Omit<AttachmentOptions, 'baseDir' | 'allowedHosts'>> = {
+    maxFileSize: 10 * 1024 * 1024,
+    maxMessageSize: 25 * 1024 * 1024,
+    allowedTypes: [
+        'image/*',
+        'text/plain',
+        'text/csv',
+        'text/calendar',
+        'application/pdf',
+        'application/json',
+        'application/zip',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.*',
+        'application/vnd.ms-excel',
+        'application/vnd.ms-powerpoint',
+    ],
+    fetchTimeout: 10000,
+};
+
+/**
+ * MIME types for common extensions, used when `content_type` is not given
+ */
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    txt: 'text/plain',
+    csv: 'text/csv',
+    ics: 'text/calendar',
+    pdf: 'application/pdf',
+    json: 'application/json',
+    zip: 'application/zip',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ppt: 'application/vnd.ms-powerpoint',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/**
+ * Checks a MIME type against an allow-list that may contain `type/*` wildcards
+ */
+function isTypeAllowed(contentType: string, allowedTypes: string[]): boolean {
+    const type = contentType.toLowerCase();
+    return allowedTypes.some(allowed => {
+        const pattern = allowed.toLowerCase();
+        return pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+    });
+}
+
+/**
+ * Loads the bytes of a single attachment from its base64 body, local path or URL
+ */
+async function loadAttachmentContent(
+    attachment: NotificationAttachment,
+    options: AttachmentOptions & typeof DEFAULT_ATTACHMENT_OPTIONS
+): Promise<{ content: Buffer; fetchedType?: string }> {
+    if (attachment.content !== undefined) {
+        if (!/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(attachment.content)) {
+            throw new DeliveryError('ATTACHMENT_INVALID', `Attachment "${attachment.filename}" is not valid base64`);
+        }
+        return { content: Buffer.from(attachment.content, 'base64') };
+    }
+
+    if (attachment.path !== undefined) {
+        if (!options.baseDir) {
+            throw new DeliveryError(
+                'ATTACHMENT_INVALID',
+                `Attachment "${attachment.filename}" uses a local path, but options.attachments.baseDir is not configured`
+            );
+        }
+
+        const filePath = await resolveContainedPath(options.baseDir, attachment.path);
+        const fileStat = filePath ? await stat(filePath).catch(() => null) : null;
+
+        if (!filePath || !fileStat?.isFile()) {
+            throw new DeliveryError('ATTACHMENT_INVALID', `Attachment "${attachment.filename}" path is not readable`);
+        }
+        if (fileStat.size > options.maxFileSize) {
+            throw tooLarge(attachment.filename, fileStat.size, options.maxFileSize);
+        }
+        return { content: await readFile(filePath) };
+    }
+
+    if (!options.allowedHosts?.length) {
+        throw new DeliveryError(
+            'ATTACHMENT_INVALID',
+            `Attachment "${attachment.filename}" uses a url, but options.attachments.allowedHosts is not configured`
+        );
+    }
+
+    try {
+        const fetched = await fetchWithLimits(attachment.url as string, {
+            maxBytes: options.maxFileSize,
+            timeoutMs: options.fetchTimeout,
+            allowedHosts: options.allowedHosts,
+        });
+        return { content: fetched.content, fetchedType: fetched.contentType };
+    } catch (err) {
+        if (err instanceof ResponseTooLargeError) {
+            throw tooLarge(attachment.filename, err.size, options.maxFileSize);
+        }
+        if (err instanceof HostNotAllowedError || err instanceof UnsupportedProtocolError) {
+            throw new DeliveryError('ATTACHMENT_INVALID', `Attachment "${attachment.filename}" url is not allowed: ${err.message}`);
+        }
+        const reason = err instanceof Error ? err.message : 'Unknown error';
+        throw new DeliveryError(
+            'ATTACHMENT_FETCH_FAILED',
+            `Attachment "${attachment.filename}" could not be fetched: ${reason}`,
+            true
+        );
+    }
+}
+
+/**
+ * Resolves `relativePath` against `baseDir`, following symlinks, and
+ * returns null if the result escapes the base directory or does not exist.
+ */
+async function resolveContainedPath(baseDir: string, relativePath: string): Promise<string | null> {
+    try {
+        const root = await realpath(baseDir);
+        const filePath = await realpath(path.resolve(root, relativePath));
+        return filePath.startsWith(root + path.sep) ? filePath : null;
+    } catch {
+        return null;
+    }
+}
+
+function tooLarge(filename: string, size: number, limit: number): DeliveryError {
+    return new DeliveryError(
+        'ATTACHMENT_TOO_LARGE',
+        `Attachment "${filename}" is ${size} bytes, limit is ${limit} bytes`
+    );
+}
+
+/**
+ * Resolves notification attachments into nodemailer attachments,
+ * enforcing per-file size limits and the MIME type allow-list.
+ *
+ * @param attachments - Attachments from notification content
+ * @param options - Attachment limits
+ * @returns Nodemailer attachments with in-memory content
+ * @throws DeliveryError with a non-retryable code when a limit is violated
+ */
+export async function resolveAttachments(
+    attachments: NotificationAttachment[],
+    options: AttachmentOptions = {}
+): Promise<MailAttachment[]> {
+    const limits = { ...DEFAULT_ATTACHMENT_OPTIONS, ...options };
+
+    return Promise.all(attachments.map(async attachment => {
+        const extension = path.extname(attachment.filename).slice(1).toLowerCase();
+        const { content, fetchedType } = await loadAttachmentContent(attachment, limits);
+        const contentType = attachment.content_type || fetchedType || EXTENSION_TYPES[extension] || 'application/octet-stream';
+
+        if (content.length > limits.maxFileSize) {
+            throw tooLarge(attachment.filename, content.length, limits.maxFileSize);
+        }
+
+        if (!isTypeAllowed(contentType, limits.allowedTypes)) {
+            throw new DeliveryError(
+                'ATTACHMENT_TYPE_NOT_ALLOWED',
+                `Attachment "${attachment.filename}" has disallowed type ${contentType}`
+            );
+        }
+
+        const disposition = attachment.disposition || (attachment.cid ? 'inline' : 'attachment');
+
+        return {
+            filename: attachment.filename,
+            content,
+            contentType,
+            contentDisposition: disposition,
+            ...(attachment.cid && { cid: attachment.cid }),
+        };
+    }));
+}
+
+/**
+ * Estimates the encoded size of a message: text bodies as-is plus
+ * attachments with base64 overhead (4/3, plus line breaks).
+ *
+ * @param mailOptions - The message about to be sent
+ * @returns Approximate size in bytes
+ */
+export function estimateMessageSize(mailOptions: SendMailOptions): number {
+    const bodySize = [mailOptions.text, mailOptions.html]
+        .reduce((total, body) => total + (typeof body === 'string' ? Buffer.byteLength(body) : 0), 0);
+
+    const attachmentSize = (mailOptions.attachments || []).reduce((total, attachment) => {
+        const content = attachment.content;
+        const size = Buffer.isBuffer(content) ? content.length : typeof content === 'string' ? Buffer.byteLength(content) : 0;
+        return total + Math.ceil(size / 3) * 4 * (1 + 2 / 76);
+    }, 0);
+
+    return Math.ceil(bodySize + attachmentSize);
+}
+
+/**
+ * Rejects messages that exceed the configured total size.
+ *
+ * @throws DeliveryError MESSAGE_TOO_LARGE (non-retryable)
+ */
+export function assertMessageSize(mailOptions: SendMailOptions, options: AttachmentOptions = {}): void {
+    const maxMessageSize = options.maxMessageSize ?? DEFAULT_ATTACHMENT_OPTIONS.maxMessageSize;
+    const size = estimateMessageSize(mailOptions);
+
+    if (size > maxMessageSize) {
+        throw new DeliveryError(
+            'MESSAGE_TOO_LARGE',
+            `Message is approximately ${size} bytes, limit is ${maxMessageSize} bytes`
+        );
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * SMTP authentication helpers for the Gmail provider.
+ *
+ * Supports three modes, selected with the EMAIL_AUTH_TYPE credential:
+ * - login:           EMAIL_USER + EMAIL_PASS (app password), the default
+ * - oauth2:          3-legged OAuth2 with a client ID/secret and refresh token
+ * - service_account: 2-legged OAuth2 using a service account JWT with
+ *                    domain-wide delegation to impersonate EMAIL_USER
+ *
+ * In both OAuth2 modes Nodemailer fetches and refreshes access tokens itself.
+ */
+
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+
+/**
+ * Supported authentication modes
+ */
+export type AuthType = 'login' | 'oauth2' | 'service_account';
+
+/**
+ * Credentials required by each authentication mode
+ */
+export const AUTH_REQUIRED_CREDENTIALS: Record<AuthType, string[]> = {
+    login: ['EMAIL_USER', 'EMAIL_PASS'],
+    oauth2: ['EMAIL_USER', 'EMAIL_CLIENT_ID', 'EMAIL_CLIENT_SECRET', 'EMAIL_REFRESH_TOKEN'],
+    service_account: ['EMAIL_USER', 'EMAIL_SERVICE_CLIENT', 'EMAIL_PRIVATE_KEY'],
+};
+
+/**
+ * Credentials that are never required but are understood by at least one mode
+ */
+export const AUTH_OPTIONAL_CREDENTIALS = ['EMAIL_AUTH_TYPE', 'EMAIL_ACCESS_TOKEN'];
+
+/**
+ * Resolves the authentication mode from the EMAIL_AUTH_TYPE credential.
+ *
+ * @param credentials - Provider credentials
+ * @returns The selected auth mode (defaults to 'login')
+ */
+export function resolveAuthType(credentials: Record<string, string | undefined>): AuthType {
+    const authType = (credentials['EMAIL_AUTH_TYPE'] || 'login').toLowerCase();
+
+    if (!(authType in AUTH_REQUIRED_CREDENTIALS)) {
+        throw new Error(
+            `Unsupported EMAIL_AUTH_TYPE "${authType}", expected one of: ${Object.keys(AUTH_REQUIRED_CREDENTIALS).join(', ')}`
+        );
+    }
+
+    return authType as AuthType;
+}
+
+/**
+ * Builds the Nodemailer `auth` option for the selected mode.
+ * Throws when a credential required by that mode is missing.
+ *
+ * @param authType - The selected auth mode
+ * @param credentials - Provider credentials
+ * @returns Nodemailer SMTP authentication options
+ */
+export function buildAuth(
+    authType: AuthType,
+    credentials: Record<string, string | undefined>
+): SMTPTransport.Options['auth'] {
+    const missing = AUTH_REQUIRED_CREDENTIALS[authType].filter(key => !credentials[key]);
+
+    if (missing.length > 0) {
+        // Keep the historical message for the default mode
+        if (authType === 'login') {
+            throw new Error('EMAIL_USER and EMAIL_PASS are required');
+        }
+        throw new Error(
+            `${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required for ${authType} authentication`
+        );
+    }
+
+    const user = credentials['EMAIL_USER'] as string;
+
+    switch (authType) {
+        case 'oauth2':
+            return {
+                type: 'OAuth2',
+                user,
+                clientId: credentials['EMAIL_CLIENT_ID'],
+                clientSecret: credentials['EMAIL_CLIENT_SECRET'],
+                refreshToken: credentials['EMAIL_REFRESH_TOKEN'],
+                ...(credentials['EMAIL_ACCESS_TOKEN'] && { accessToken: credentials['EMAIL_ACCESS_TOKEN'] }),
+            };
+        case 'service_account':
+            return {
+                type: 'OAuth2',
+                user,
+                serviceClient: credentials['EMAIL_SERVICE_CLIENT'],
+                privateKey: normalizePrivateKey(credentials['EMAIL_PRIVATE_KEY'] as string),
+            };
+        default:
+            return { user, pass: credentials['EMAIL_PASS'] };
+    }
+}
+
+/**
+ * Private keys passed through environment variables usually have their
+ * newlines escaped as literal "\n" sequences; restore them so the PEM parses.
+ */
+function normalizePrivateKey(privateKey: string): string {
+    return privateKey.includes('\\n') ? privateKey.replace(/\\n/g, '\n') : privateKey;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MessageCapture, type StreamSentInfo } from './capture.js';
+
+const info = (id: string): StreamSentInfo => ({
+    messageId: `<${id}@example.com>`,
+    envelope: { from: 'sender@gmail.com', to: ['recipient@example.com'] },
+    message: Buffer.from(`Message-ID: <${id}@example.com>\r\nSubject: Test\r\n\r\nHello\r\n`),
+});
+
+describe('MessageCapture', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'capture-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep captured messages in memory', async () => {
+        const capture = new MessageCapture();
+        const captured = await capture.store(info('a'));
+
+        expect(captured).toEqual({
+            messageId: '<a@example.com>',
+            envelope: { from: 'sender@gmail.com', to: ['recipient@example.com'] },
+            raw: 'Message-ID: <a@example.com>\r\nSubject: Test\r\n\r\nHello\r\n',
+            capturedAt: expect.any(String),
+        });
+        expect(capture.list()).toEqual([captured]);
+
+        capture.clear();
+        expect(capture.list()).toEqual([]);
+    });
+
+    it('should serialize mail options with the stream transport', async () => {
+        const capture = new MessageCapture();
+
+        const captured = await capture.capture({
+            from: 'sender@gmail.com',
+            to: 'recipient@example.com',
+            subject: 'Test',
+            text: 'Hello',
+        });
+
+        expect(captured.envelope).toEqual({ from: 'sender@gmail.com', to: ['recipient@example.com'] });
+        expect(captured.raw).toContain('Subject: Test');
+        expect(captured.raw).toContain(`Message-ID: ${captured.messageId}`);
+        expect(capture.list()).toEqual([captured]);
+    });
+
+    it('should drop the oldest messages beyond maxMessages', async () => {
+        const capture = new MessageCapture({ maxMessages: 2 });
+        for (const id of ['a', 'b', 'c']) {
+            await capture.store(info(id));
+        }
+
+        expect(capture.list().map(message => message.messageId)).toEqual(['<b@example.com>', '<c@example.com>']);
+    });
+
+    it('should write .eml files to the capture directory', async () => {
+        const directory = path.join(dir, 'nested');
+        const captured = await new MessageCapture({ directory }).store(info('a'));
+
+        expect(await readdir(directory)).toEqual([path.basename(captured.path!)]);
+        expect(captured.path).toMatch(/-a@example\.com\.eml$/);
+        expect(await readFile(captured.path!, 'utf8')).toBe(captured.raw);
+    });
+});
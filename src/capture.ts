@@ -0,0 +1,117 @@
+/**
+ * Dry-run capture of outgoing messages.
+ *
+ * In capture mode messages go through the full rendering pipeline but are
+ * serialized by nodemailer's stream transport instead of being sent, then
+ * kept in memory or written as `.eml` files for inspection.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import type { SendMailOptions, Transporter } from 'nodemailer';
+import type StreamTransport from 'nodemailer/lib/stream-transport/index.js';
+
+/**
+ * Capture options, configured under `options.capture`
+ */
+export interface CaptureOptions {
+    /** Capture messages instead of sending them (default: false) */
+    enabled?: boolean;
+    /** Directory `.eml` files are written to; memory only when omitted */
+    directory?: string;
+    /** Maximum number of messages kept in memory (default: 100) */
+    maxMessages?: number;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS = {
+    maxMessages: 100,
+};
+
+/**
+ * A message captured instead of being sent
+ */
+export interface CapturedMessage {
+    messageId: string;
+    envelope: { from: string | false; to: string[] };
+    /** The complete RFC 822 message */
+    raw: string;
+    capturedAt: string;
+    /** Path of the `.eml` file, when writing to a directory */
+    path?: string;
+}
+
+/**
+ * Send info produced by nodemailer's stream transport with `buffer: true`
+ */
+export interface StreamSentInfo {
+    messageId: string;
+    envelope: { from: string | false; to: string[] };
+    message: Buffer;
+}
+
+/**
+ * File name for a captured message, e.g. `2024-01-01T00-00-00.000Z-abc@host.eml`
+ */
+function fileNameFor(messageId: string, capturedAt: string): string {
+    const id = messageId.replace(/^<|>$/g, '').replace(/[^\w.@-]/g, '_');
+    return `${capturedAt.replace(/:/g, '-')}-${id}.eml`;
+}
+
+/**
+ * Keeps the most recent captured messages, oldest first
+ */
+export class MessageCapture {
+    private readonly messages: CapturedMessage[] = [];
+
+    /** Serializes messages into buffers instead of sending them */
+    readonly transporter: Transporter<StreamTransport.SentMessageInfo> = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+    constructor(private readonly options: CaptureOptions = {}) { }
+
+    /**
+     * Serializes a message with the stream transport and stores it
+     */
+    async capture(mailOptions: SendMailOptions): Promise<CapturedMessage> {
+        const { messageId, envelope, message } = await this.transporter.sendMail(mailOptions);
+        if (!Buffer.isBuffer(message)) {
+            throw new Error('Stream transport returned a stream instead of a buffer');
+        }
+        return this.store({ messageId, envelope, message });
+    }
+
+    /**
+     * Stores a serialized message, writing it to the capture directory if configured
+     */
+    async store(info: StreamSentInfo): Promise<CapturedMessage> {
+        const capturedAt = new Date().toISOString();
+        const captured: CapturedMessage = {
+            messageId: info.messageId,
+            envelope: info.envelope,
+            raw: info.message.toString('utf8'),
+            capturedAt,
+        };
+
+        if (this.options.directory) {
+            captured.path = path.join(this.options.directory, fileNameFor(info.messageId, capturedAt));
+            await mkdir(this.options.directory, { recursive: true });
+            await writeFile(captured.path, info.message);
+        }
+
+        this.messages.push(captured);
+        const maxMessages = this.options.maxMessages ?? DEFAULT_CAPTURE_OPTIONS.maxMessages;
+        if (this.messages.length > maxMessages) {
+            this.messages.splice(0, this.messages.length - maxMessages);
+        }
+
+        return captured;
+    }
+
+    list(): CapturedMessage[] {
+        return [...this.messages];
+    }
+
+    clear(): void {
+        this.messages.length = 0;
+    }
+}
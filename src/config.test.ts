@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseConfig } from './config.js';
+import { ConfigurationError } from './errors.js';
+
+// Mock @simplens/sdk
+vi.mock('@simplens/sdk', async () => {
+    const { z } = await import('zod');
+    return { z };
+});
+
+const credentials = { EMAIL_USER: 'test@gmail.com', EMAIL_PASS: 'password123' };
+
+const issuesOf = (run: () => unknown): string[] => {
+    try {
+        run();
+    } catch (err) {
+        expect(err).toBeInstanceOf(ConfigurationError);
+        return (err as ConfigurationError).issues;
+    }
+    throw new Error('Expected a ConfigurationError');
+};
+
+describe('parseConfig', () => {
+    it('should accept a minimal configuration and keep unknown top-level options', () => {
+        expect(parseConfig(credentials, { priority: 1, EMAIL_PORT: '465' })).toEqual({
+            credentials,
+            options: { priority: 1, EMAIL_PORT: '465' },
+        });
+        expect(parseConfig(credentials, undefined).options).toEqual({});
+    });
+
+    it('should report every problem at once', () => {
+        expect(issuesOf(() => parseConfig(
+            { ...credentials, EMAIL_PORT: '58a7' },
+            { pool: { maxConnections: '5' }, rateLimit: { refillInterval: 'week' }, html: { inlineCSS: true } }
+        ))).toEqual([
+            'credentials.EMAIL_PORT: must be a port number (1-65535)',
+            'options.rateLimit.refillInterval: Invalid enum value. Expected \'second\' | \'minute\' | \'hour\' | \'day\', received \'week\'',
+            'options.html: Unrecognized key(s) in object: \'inlineCSS\'',
+            'options.pool.maxConnections: Expected number, received string',
+        ]);
+    });
+
+    it('should report missing credentials for the auth mode', () => {
+        expect(issuesOf(() => parseConfig({ EMAIL_USER: 'test@gmail.com' }, {})))
+            .toEqual(['credentials: EMAIL_USER and EMAIL_PASS are required']);
+        expect(issuesOf(() => parseConfig({ ...credentials, EMAIL_AUTH_TYPE: 'kerberos' }, {})))
+            .toEqual([expect.stringMatching(/^credentials\.EMAIL_AUTH_TYPE: Unsupported EMAIL_AUTH_TYPE "kerberos"/)]);
+    });
+
+    it('should check each account of EMAIL_ACCOUNTS', () => {
+        expect(issuesOf(() => parseConfig({
+            EMAIL_PASS: 'shared',
+            EMAIL_ACCOUNTS: JSON.stringify([
+                { EMAIL_USER: 'a@gmail.com' },
+                { EMAIL_USER: 'b@gmail.com', EMAIL_DAILY_LIMIT: 'lots' },
+                { EMAIL_AUTH_TYPE: 'oauth2', EMAIL_USER: 'c@gmail.com' },
+            ]),
+        }, {}))).toEqual([
+            'credentials.EMAIL_ACCOUNTS[1].EMAIL_DAILY_LIMIT: must be a positive integer',
+            'credentials.EMAIL_ACCOUNTS[2]: EMAIL_CLIENT_ID, EMAIL_CLIENT_SECRET, EMAIL_REFRESH_TOKEN are required for oauth2 authentication',
+        ]);
+        expect(issuesOf(() => parseConfig({ EMAIL_ACCOUNTS: '{}' }, {})))
+            .toEqual(['credentials.EMAIL_ACCOUNTS: EMAIL_ACCOUNTS must be a JSON array of account credentials']);
+    });
+
+    it('should validate transport options', () => {
+        expect(issuesOf(() => parseConfig(credentials, {
+            transport: { tls: { minVersion: 'TLSv1.2', verify: true }, connectionTimeout: -1, localAddress: 'not-an-ip', proxy: 'ftp://proxy' },
+        }))).toEqual([
+            'options.transport.tls: Unrecognized key(s) in object: \'verify\'',
+            'options.transport.connectionTimeout: Number must be greater than 0',
+            'options.transport.localAddress: Invalid ip',
+            'options.transport.proxy: proxy must be an http(s) or socks URL',
+        ]);
+        expect(issuesOf(() => parseConfig(credentials, { transport: { tls: { cert: 'cert.pem' } } })))
+            .toEqual(['options.transport.tls: cert and key must be given together']);
+    });
+
+    it('should reject a pool idle timeout combined with a transport socket timeout', () => {
+        expect(issuesOf(() => parseConfig(credentials, {
+            pool: { enabled: true, idleTimeout: 5000 },
+            transport: { socketTimeout: 60000 },
+        }))).toEqual(['options.pool.idleTimeout: cannot be combined with transport.socketTimeout when pooling is enabled, set only one']);
+        expect(parseConfig(credentials, { pool: { idleTimeout: 5000 }, transport: { socketTimeout: 60000 } }).options.pool)
+            .toEqual({ idleTimeout: 5000 });
+    });
+
+    it('should run the DKIM, unsubscribe and templating checks', () => {
+        expect(issuesOf(() => parseConfig(credentials, {
+            dkim: { domainName: 'example.com', keySelector: 'mail', privateKey: 'not a key' },
+            unsubscribe: { url: 'http://example.com/u' },
+            templating: { timeZone: 'Mars/Olympus', currency: 'dollars' },
+        }))).toEqual([
+            'options.templating.timeZone: Invalid time zone specified: Mars/Olympus',
+            'options.templating.currency: must be an ISO 4217 currency code',
+            'options.dkim: DKIM: privateKey is not a valid PEM private key',
+            'options.unsubscribe: unsubscribe url must be an https URL, got "http://example.com/u"',
+        ]);
+    });
+});
@@ -0,0 +1,250 @@
+/**
+ * Schema of the provider configuration: every credential and option the
+ * provider understands, validated once at `initialize` so mistakes surface
+ * as one readable error instead of odd behavior at send time.
+ *
+ * Each option section rejects unknown keys to catch typos. Top-level
+ * options are passed through, since SimpleNS keeps its own settings
+ * (e.g. `priority`) there as well.
+ */
+
+import { z } from '@simplens/sdk';
+import { type AccountOptions, parseAccountCredentials } from './accounts.js';
+import { type AttachmentOptions } from './attachments.js';
+import { buildAuth, resolveAuthType } from './auth.js';
+import { type CaptureOptions } from './capture.js';
+import { type DkimOptions, parseDkimKeys } from './dkim.js';
+import { ConfigurationError } from './errors.js';
+import { type UnsubscribeOptions, validateUnsubscribeOptions } from './headers.js';
+import { type HtmlOptions } from './html.js';
+import { type RemoteImageOptions } from './images.js';
+import { type LogLevel, type LoggingOptions, LOG_LEVELS } from './logger.js';
+import { type PoolOptions } from './pool.js';
+import { type QuotaOptions } from './quota.js';
+import { type TemplatingOptions } from './template.js';
+import { transportOptionsSchema } from './transport.js';
+
+const positiveInt = () => z.number().int().positive();
+
+function isPort(value: unknown): boolean {
+    const port = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    return Number.isInteger(port) && (port as number) >= 1 && (port as number) <= 65535;
+}
+
+const portSchema = z.union([z.string(), z.number()])
+    .refine(isPort, { message: 'must be a port number (1-65535)' });
+
+/**
+ * Adds an issue for each error a validator throws
+ */
+function refineWith<T>(validate: (value: T) => unknown) {
+    return (value: T, ctx: z.RefinementCtx) => {
+        try {
+            validate(value);
+        } catch (err) {
+            ctx.addIssue({ code: 'custom', message: err instanceof Error ? err.message : String(err) });
+        }
+    };
+}
+
+const rateLimitSchema = z.object({
+    maxTokens: positiveInt().optional(),
+    refillRate: z.number().positive().optional(),
+    refillInterval: z.enum(['second', 'minute', 'hour', 'day']).optional(),
+}).strict();
+
+const attachmentOptionsSchema: z.ZodType<AttachmentOptions> = z.object({
+    maxFileSize: positiveInt().optional(),
+    maxMessageSize: positiveInt().optional(),
+    allowedTypes: z.array(z.string().min(1)).optional(),
+    baseDir: z.string().min(1).optional(),
+    fetchTimeout: positiveInt().optional(),
+    allowedHosts: z.array(z.string().min(1)).optional(),
+}).strict();
+
+const htmlOptionsSchema: z.ZodType<HtmlOptions> = z.object({
+    textAlternative: z.boolean().optional(),
+    inlineCss: z.boolean().optional(),
+    sanitize: z.boolean().optional(),
+    disallowedTags: z.array(z.string().min(1)).optional(),
+    baseUrl: z.string().url().optional(),
+}).strict();
+
+const remoteImageOptionsSchema: z.ZodType<RemoteImageOptions> = z.object({
+    enabled: z.boolean().optional(),
+    allowedHosts: z.array(z.string().min(1)).optional(),
+    maxSize: positiveInt().optional(),
+    timeout: positiveInt().optional(),
+    cacheTtl: positiveInt().optional(),
+    cacheSize: positiveInt().optional(),
+}).strict();
+
+const poolOptionsSchema: z.ZodType<PoolOptions> = z.object({
+    enabled: z.boolean().optional(),
+    maxConnections: positiveInt().optional(),
+    maxMessages: positiveInt().optional(),
+    idleTimeout: positiveInt().optional(),
+    drainTimeout: z.number().int().nonnegative().optional(),
+}).strict();
+
+const accountOptionsSchema: z.ZodType<AccountOptions> = z.object({
+    strategy: z.enum(['round-robin', 'least-used']).optional(),
+    dailyLimit: positiveInt().optional(),
+}).strict();
+
+const quotaOptionsSchema: z.ZodType<QuotaOptions> = z.object({
+    path: z.string().min(1).optional(),
+    retryable: z.boolean().optional(),
+}).strict();
+
+const templatingOptionsSchema: z.ZodType<TemplatingOptions> = z.object({
+    engine: z.enum(['simple', 'template']).optional(),
+    locale: z.string().min(1).optional(),
+    timeZone: z.string().min(1).superRefine(refineWith(timeZone => new Intl.DateTimeFormat('en-US', { timeZone }))).optional(),
+    currency: z.string().regex(/^[A-Za-z]{3}$/, 'must be an ISO 4217 currency code').optional(),
+    missingVariables: z.enum(['ignore', 'warn', 'error']).optional(),
+}).strict();
+
+const loggingOptionsSchema: z.ZodType<LoggingOptions> = z.object({
+    level: z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]).optional(),
+    redact: z.boolean().optional(),
+}).strict();
+
+const captureOptionsSchema: z.ZodType<CaptureOptions> = z.object({
+    enabled: z.boolean().optional(),
+    directory: z.string().min(1).optional(),
+    maxMessages: positiveInt().optional(),
+}).strict();
+
+const dkimKeySchema = z.object({
+    domainName: z.string(),
+    keySelector: z.string(),
+    privateKey: z.string(),
+    activeFrom: z.string().optional(),
+    activeUntil: z.string().optional(),
+}).strict();
+
+const dkimOptionsSchema: z.ZodType<DkimOptions> = dkimKeySchema.partial().extend({
+    keys: z.array(dkimKeySchema).optional(),
+    skipFields: z.string().optional(),
+}).strict().superRefine(refineWith(parseDkimKeys));
+
+const unsubscribeOptionsSchema: z.ZodType<UnsubscribeOptions> = z.object({
+    url: z.string().optional(),
+    mailto: z.string().optional(),
+    oneClick: z.boolean().optional(),
+}).strict().superRefine(refineWith(validateUnsubscribeOptions));
+
+/**
+ * Schema of `config.options`
+ */
+export const optionsSchema = z.object({
+    EMAIL_HOST: z.string().min(1).optional(),
+    EMAIL_PORT: portSchema.optional(),
+    /** Verify every account's SMTP connection during `initialize` (default: false) */
+    verifyOnInitialize: z.boolean().optional(),
+    rateLimit: rateLimitSchema.optional(),
+    attachments: attachmentOptionsSchema.optional(),
+    html: htmlOptionsSchema.optional(),
+    remoteImages: remoteImageOptionsSchema.optional(),
+    pool: poolOptionsSchema.optional(),
+    accounts: accountOptionsSchema.optional(),
+    quota: quotaOptionsSchema.optional(),
+    templating: templatingOptionsSchema.optional(),
+    capture: captureOptionsSchema.optional(),
+    logging: loggingOptionsSchema.optional(),
+    dkim: dkimOptionsSchema.optional(),
+    unsubscribe: unsubscribeOptionsSchema.optional(),
+    transport: transportOptionsSchema.optional(),
+}).passthrough().superRefine((options, ctx) => {
+    // Both set the socket timeout of pooled connections
+    if (options.pool?.enabled && options.pool.idleTimeout !== undefined && options.transport?.socketTimeout !== undefined) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['pool', 'idleTimeout'],
+            message: 'cannot be combined with transport.socketTimeout when pooling is enabled, set only one',
+        });
+    }
+});
+
+/**
+ * Format checks for credentials that can be given per account
+ */
+const credentialFieldsSchema = z.object({
+    EMAIL_HOST: z.string().min(1).optional(),
+    EMAIL_PORT: portSchema.optional(),
+    EMAIL_FROM: z.string().min(1).optional(),
+    EMAIL_DAILY_LIMIT: z.string().regex(/^[1-9]\d*$/, 'must be a positive integer').optional(),
+    EMAIL_AUTH_TYPE: z.string().superRefine(refineWith(authType => resolveAuthType({ EMAIL_AUTH_TYPE: authType }))).optional(),
+}).passthrough();
+
+/**
+ * Checks an account's credential formats and that its auth mode has everything it needs
+ */
+function checkAccount(credentials: Record<string, string>, path: Array<string | number>, ctx: z.RefinementCtx): void {
+    const parsed = credentialFieldsSchema.safeParse(credentials);
+    if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+            ctx.addIssue({ code: 'custom', path: [...path, ...issue.path], message: issue.message });
+        }
+        return;
+    }
+
+    try {
+        buildAuth(resolveAuthType(credentials), credentials);
+    } catch (err) {
+        ctx.addIssue({ code: 'custom', path, message: err instanceof Error ? err.message : String(err) });
+    }
+}
+
+/**
+ * Schema of `config.credentials`
+ */
+export const credentialsSchema = z.record(z.string(), z.string()).superRefine((credentials, ctx) => {
+    if (!credentials['EMAIL_ACCOUNTS']) {
+        checkAccount(credentials, [], ctx);
+        return;
+    }
+
+    let accounts: Array<Record<string, string>>;
+    try {
+        accounts = parseAccountCredentials(credentials);
+    } catch (err) {
+        ctx.addIssue({ code: 'custom', path: ['EMAIL_ACCOUNTS'], message: err instanceof Error ? err.message : String(err) });
+        return;
+    }
+    accounts.forEach((account, index) => checkAccount(account, ['EMAIL_ACCOUNTS', index], ctx));
+});
+
+/**
+ * Schema of the whole provider configuration
+ */
+export const configSchema = z.object({
+    credentials: credentialsSchema,
+    options: optionsSchema.optional(),
+});
+
+/**
+ * Validated `config.options`
+ */
+export type ProviderOptions = z.infer<typeof optionsSchema>;
+
+/**
+ * `credentials.EMAIL_ACCOUNTS[1]`, `options.pool.maxConnections`
+ */
+function formatPath(path: Array<string | number>): string {
+    return path.reduce<string>((result, key) => typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key, '');
+}
+
+/**
+ * Validates credentials and options
+ *
+ * @throws ConfigurationError listing every problem
+ */
+export function parseConfig(credentials: unknown, options: unknown): { credentials: Record<string, string>; options: ProviderOptions } {
+    const parsed = configSchema.safeParse({ credentials, options });
+    if (!parsed.success) {
+        throw new ConfigurationError(parsed.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`));
+    }
+    return { credentials: parsed.data.credentials, options: parsed.data.options || {} };
+}
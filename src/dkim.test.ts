@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { dkimSigningOptions, isAligned, parseDkimKeys, signMessage } from './dkim.js';
+
+const rsaKey = () => generateKeyPairSync('rsa', { modulusLength: 1024 })
+    .privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+const privateKey = rsaKey();
+const nextKey = rsaKey();
+
+describe('parseDkimKeys', () => {
+    it('should accept a single inline key', () => {
+        expect(parseDkimKeys({ domainName: 'Example.com', keySelector: 'mail', privateKey })).toEqual([{
+            domainName: 'example.com',
+            keySelector: 'mail',
+            privateKey,
+            activeFrom: -Infinity,
+            activeUntil: Infinity,
+        }]);
+    });
+
+    it('should accept a list of keys with validity windows', () => {
+        const keys = parseDkimKeys({
+            keys: [
+                { domainName: 'example.com', keySelector: 'old', privateKey, activeUntil: '2099-01-01T00:00:00Z' },
+                { domainName: 'example.com', keySelector: 'new', privateKey: nextKey, activeFrom: '2098-12-01T00:00:00Z' },
+            ],
+        });
+
+        expect(keys.map(key => [key.keySelector, key.activeFrom, key.activeUntil])).toEqual([
+            ['old', -Infinity, Date.parse('2099-01-01T00:00:00Z')],
+            ['new', Date.parse('2098-12-01T00:00:00Z'), Infinity],
+        ]);
+    });
+
+    it('should name the invalid key', () => {
+        expect(() => parseDkimKeys({ keys: [{ domainName: 'example.com', keySelector: 'mail', privateKey }, { domainName: 'not a domain', keySelector: 'mail', privateKey }] }))
+            .toThrow('DKIM keys[1]: domainName must be a domain name, got "not a domain"');
+        expect(() => parseDkimKeys({ domainName: 'example.com', keySelector: 'bad selector', privateKey }))
+            .toThrow('DKIM: keySelector must be a DNS label');
+        expect(() => parseDkimKeys({ domainName: 'example.com', keySelector: 'mail' }))
+            .toThrow('DKIM: privateKey is required');
+    });
+
+    it('should reject keys that are not RSA private keys', () => {
+        const ed25519 = generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+        expect(() => parseDkimKeys({ domainName: 'example.com', keySelector: 'mail', privateKey: 'not a key' }))
+            .toThrow('DKIM: privateKey is not a valid PEM private key');
+        expect(() => parseDkimKeys({ domainName: 'example.com', keySelector: 'mail', privateKey: ed25519 }))
+            .toThrow('DKIM: privateKey must be an RSA key, got ed25519');
+    });
+
+    it('should reject invalid or expired validity windows', () => {
+        const key = { domainName: 'example.com', keySelector: 'mail', privateKey };
+
+        expect(() => parseDkimKeys({ ...key, activeFrom: 'soon' })).toThrow('DKIM: activeFrom is not a valid date: soon');
+        expect(() => parseDkimKeys({ ...key, activeFrom: '2030-01-02', activeUntil: '2030-01-01' }))
+            .toThrow('DKIM: activeUntil must be after activeFrom');
+        expect(() => parseDkimKeys({ keys: [{ ...key, activeUntil: '2000-01-01' }] })).toThrow('DKIM: every key has expired');
+    });
+});
+
+describe('dkimSigningOptions', () => {
+    const keys = parseDkimKeys({
+        keys: [
+            { domainName: 'example.com', keySelector: 'old', privateKey, activeUntil: '2099-01-01T00:00:00Z' },
+            { domainName: 'example.com', keySelector: 'new', privateKey: nextKey, activeFrom: '2098-12-01T00:00:00Z' },
+        ],
+        skipFields: 'message-id:date',
+    });
+    const selectors = (now: number) => dkimSigningOptions(keys, undefined, now)?.keys.map(key => key.keySelector);
+
+    it('should sign with every key active at the time, overlapping during rotation', () => {
+        expect(selectors(Date.parse('2098-11-30T00:00:00Z'))).toEqual(['old']);
+        expect(selectors(Date.parse('2098-12-15T00:00:00Z'))).toEqual(['old', 'new']);
+        expect(selectors(Date.parse('2099-01-01T00:00:00Z'))).toEqual(['new']);
+    });
+
+    it('should pass skipFields through', () => {
+        expect(dkimSigningOptions(keys, 'message-id:date', Date.parse('2098-11-30T00:00:00Z'))).toEqual({
+            keys: [{ domainName: 'example.com', keySelector: 'old', privateKey }],
+            skipFields: 'message-id:date',
+        });
+    });
+
+    it('should return undefined when no key is active', () => {
+        expect(dkimSigningOptions(parseDkimKeys({ domainName: 'example.com', keySelector: 'mail', privateKey, activeFrom: '2099-01-01' }))).toBeUndefined();
+    });
+});
+
+describe('isAligned', () => {
+    const keys = parseDkimKeys({ domainName: 'example.com', keySelector: 'mail', privateKey });
+
+    it('should match the signing domain and its subdomains', () => {
+        expect(isAligned('Team <team@example.com>', keys)).toBe(true);
+        expect(isAligned('alerts@mail.example.com', keys)).toBe(true);
+        expect(isAligned('someone@gmail.com', keys)).toBe(false);
+        expect(isAligned('someone@notexample.com', keys)).toBe(false);
+    });
+});
+
+describe('signMessage', () => {
+    it('should add a signature per key', async () => {
+        const message = Buffer.from('From: team@example.com\r\nSubject: Hi\r\n\r\nHello\r\n');
+
+        const signed = (await signMessage(message, {
+            keys: [
+                { domainName: 'example.com', keySelector: 'old', privateKey },
+                { domainName: 'example.com', keySelector: 'new', privateKey: nextKey },
+            ],
+        })).toString();
+
+        expect(signed.match(/^DKIM-Signature:/gm)).toHaveLength(2);
+        expect(signed).toMatch(/d=example\.com;[\s\S]*s=old;/);
+        expect(signed).toMatch(/d=example\.com;[\s\S]*s=new;/);
+        expect(signed.endsWith('From: team@example.com\r\nSubject: Hi\r\n\r\nHello\r\n')).toBe(true);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * DKIM signing for mail sent through custom SMTP hosts.
+ *
+ * Gmail signs messages itself; relays usually do not, and unsigned mail
+ * fails DMARC alignment. Several keys can be configured: every key that is
+ * active at send time adds a signature, so a new key can be introduced
+ * alongside the old one before the old one is retired.
+ */
+
+import { createPrivateKey } from 'node:crypto';
+import DKIM from 'nodemailer/lib/dkim/index.js';
+
+/**
+ * One DKIM key
+ */
+export interface DkimKey {
+    /** Signing domain (`d=`) */
+    domainName: string;
+    /** Selector the public key is published under (`s=`) */
+    keySelector: string;
+    /** RSA private key in PEM format */
+    privateKey: string;
+    /** Start signing with this key from this time (ISO 8601) */
+    activeFrom?: string;
+    /** Stop signing with this key at this time (ISO 8601) */
+    activeUntil?: string;
+}
+
+/**
+ * DKIM options, configured under `options.dkim`. Either a single key given
+ * inline or a list of `keys`.
+ */
+export interface DkimOptions extends Partial<DkimKey> {
+    keys?: DkimKey[];
+    /** Headers not to sign, colon separated (e.g. `message-id:date`) */
+    skipFields?: string;
+}
+
+/**
+ * A validated key with its validity window in epoch ms
+ */
+export interface ResolvedDkimKey {
+    domainName: string;
+    keySelector: string;
+    privateKey: string;
+    activeFrom: number;
+    activeUntil: number;
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+const SELECTOR_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+function parseTime(value: string | undefined, fallback: number, field: string): number {
+    if (value === undefined) {
+        return fallback;
+    }
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new Error(`${field} is not a valid date: ${value}`);
+    }
+    return time;
+}
+
+function resolveKey(key: DkimKey): ResolvedDkimKey {
+    if (!key.domainName || !DOMAIN_PATTERN.test(key.domainName)) {
+        throw new Error(`domainName must be a domain name, got ${JSON.stringify(key.domainName)}`);
+    }
+    if (!key.keySelector || !SELECTOR_PATTERN.test(key.keySelector)) {
+        throw new Error(`keySelector must be a DNS label, got ${JSON.stringify(key.keySelector)}`);
+    }
+    if (!key.privateKey) {
+        throw new Error('privateKey is required');
+    }
+
+    let keyType: string | undefined;
+    try {
+        keyType = createPrivateKey(key.privateKey).asymmetricKeyType;
+    } catch {
+        throw new Error('privateKey is not a valid PEM private key');
+    }
+    if (keyType !== 'rsa') {
+        throw new Error(`privateKey must be an RSA key, got ${keyType}`);
+    }
+
+    const activeFrom = parseTime(key.activeFrom, -Infinity, 'activeFrom');
+    const activeUntil = parseTime(key.activeUntil, Infinity, 'activeUntil');
+    if (activeUntil <= activeFrom) {
+        throw new Error('activeUntil must be after activeFrom');
+    }
+
+    return {
+        domainName: key.domainName.toLowerCase(),
+        keySelector: key.keySelector,
+        privateKey: key.privateKey,
+        activeFrom,
+        activeUntil,
+    };
+}
+
+/**
+ * Validates the configured DKIM keys
+ *
+ * @param options - DKIM options
+ * @returns The keys in configuration order
+ * @throws Error naming the invalid key when a key is malformed or every key has expired
+ */
+export function parseDkimKeys(options: DkimOptions): ResolvedDkimKey[] {
+    const { keys: keyList, skipFields: _skipFields, ...inline } = options;
+    const keys = keyList ?? [inline as DkimKey];
+
+    if (!Array.isArray(keys) || keys.length === 0) {
+        throw new Error('DKIM keys must be a non-empty array');
+    }
+
+    const resolved = keys.map((key, index) => {
+        try {
+            return resolveKey(key);
+        } catch (err) {
+            const label = keyList ? `DKIM keys[${index}]` : 'DKIM';
+            throw new Error(`${label}: ${err instanceof Error ? err.message : err}`);
+        }
+    });
+
+    if (resolved.every(key => key.activeUntil <= Date.now())) {
+        throw new Error('DKIM: every key has expired');
+    }
+
+    return resolved;
+}
+
+/**
+ * Nodemailer DKIM options for the keys active at `now`, or undefined if none is
+ */
+export function dkimSigningOptions(keys: ResolvedDkimKey[], skipFields?: string, now = Date.now()): DKIM.MultipleKeysOptions | undefined {
+    const active = keys.filter(key => key.activeFrom <= now && now < key.activeUntil);
+    if (active.length === 0) {
+        return undefined;
+    }
+
+    return {
+        keys: active.map(({ domainName, keySelector, privateKey }) => ({ domainName, keySelector, privateKey })),
+        ...(skipFields && { skipFields }),
+    };
+}
+
+/**
+ * Whether mail from `address` aligns (relaxed) with one of the signing domains
+ */
+export function isAligned(address: string, keys: ResolvedDkimKey[]): boolean {
+    const domain = address.match(/@([^\s@<>]+)>?\s*$/)?.[1]?.toLowerCase();
+    if (!domain) {
+        return false;
+    }
+    return keys.some(key => domain === key.domainName
+        || domain.endsWith(`.${key.domainName}`)
+        || key.domainName.endsWith(`.${domain}`));
+}
+
+/**
+ * Adds DKIM signatures to a composed message, as the transport does on send
+ */
+export async function signMessage(message: Buffer, options: DKIM.Options): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of new DKIM(options).sign(message)) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { DeliveryError, QUOTA_RETRY_AFTER, THROTTLE_RETRY_AFTER, classifySmtpError } from './errors.js';
+
+function smtpError(message: string, fields: Record<string, unknown>): Error {
+    return Object.assign(new Error(message), fields);
+}
+
+describe('classifySmtpError', () => {
+    it.each([
+        ['ECONNECTION', 'TRANSIENT_NETWORK'],
+        ['ETIMEDOUT', 'TRANSIENT_NETWORK'],
+        ['ESOCKET', 'TRANSIENT_NETWORK'],
+        ['EDNS', 'TRANSIENT_NETWORK'],
+    ])('should treat %s as a retryable network failure', (code, expected) => {
+        expect(classifySmtpError(smtpError('failed', { code }))).toMatchObject({ code: expected, retryable: true });
+    });
+
+    it.each([
+        ['ETIMEDOUT', 'connect ETIMEDOUT 10.5.1.20:587'],
+        ['ECONNECTION', 'connect ECONNREFUSED 4.2.2.1:587'],
+        ['ECONNECTION', 'Connection closed by 2.7.8.1'],
+    ])('should not read IP addresses in %s messages as status codes: %s', (code, message) => {
+        expect(classifySmtpError(smtpError(message, { code }))).toMatchObject({ code: 'TRANSIENT_NETWORK', retryable: true });
+    });
+
+    it('should only read a status from messages that start with a reply code', () => {
+        expect(classifySmtpError(smtpError('550 5.1.1 No such user', { command: 'RCPT TO' })))
+            .toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false });
+        expect(classifySmtpError(smtpError('Relay 10.5.1.20 failed', {})))
+            .toMatchObject({ code: 'SEND_FAILED', retryable: true });
+    });
+
+    it('should classify authentication failures', () => {
+        expect(classifySmtpError(smtpError('Invalid login', { code: 'EAUTH', responseCode: 535, command: 'AUTH PLAIN' })))
+            .toMatchObject({ code: 'AUTH_FAILED', retryable: false });
+        expect(classifySmtpError(smtpError('Try again', { code: 'EAUTH', responseCode: 454, command: 'AUTH XOAUTH2' })))
+            .toMatchObject({ code: 'AUTH_FAILED', retryable: true });
+        expect(classifySmtpError(smtpError('Please log in', {
+            code: 'EENVELOPE', responseCode: 530, command: 'MAIL FROM', response: '530-5.7.0 Authentication Required',
+        }))).toMatchObject({ code: 'AUTH_FAILED', retryable: false });
+    });
+
+    it('should classify unknown recipients from enhanced status codes', () => {
+        const error = classifySmtpError(smtpError('Recipient rejected', {
+            code: 'EENVELOPE', responseCode: 550, command: 'RCPT TO', response: '550-5.1.1 The email account does not exist',
+        }));
+
+        expect(error).toBeInstanceOf(DeliveryError);
+        expect(error).toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false, message: 'Recipient rejected' });
+    });
+
+    it('should classify full mailboxes as retryable only for 4xx replies', () => {
+        expect(classifySmtpError(smtpError('Over quota', {
+            code: 'EENVELOPE', responseCode: 452, command: 'RCPT TO', response: '452-4.2.2 The email account is over quota',
+        }))).toMatchObject({ code: 'MAILBOX_FULL', retryable: true });
+        expect(classifySmtpError(smtpError('Over quota', {
+            code: 'EMESSAGE', responseCode: 552, command: 'DATA', response: '552-5.2.2 The email account is over quota',
+        }))).toMatchObject({ code: 'MAILBOX_FULL', retryable: false });
+    });
+
+    it('should classify size rejections as too large rather than a full mailbox', () => {
+        expect(classifySmtpError(smtpError('Too large', {
+            code: 'EMESSAGE', responseCode: 552, command: 'DATA', response: "552-5.2.3 Your message exceeded Google's message size limits.",
+        }))).toMatchObject({ code: 'MESSAGE_TOO_LARGE', retryable: false });
+        expect(classifySmtpError(smtpError('Too large', {
+            code: 'EMESSAGE', responseCode: 552, command: 'DATA', response: '552 5.3.4 Message size exceeds fixed limit',
+        }))).toMatchObject({ code: 'MESSAGE_TOO_LARGE', retryable: false });
+        expect(classifySmtpError(smtpError('Storage exceeded', { responseCode: 552, command: 'DATA', response: '552 Requested action aborted' })))
+            .toMatchObject({ code: 'MAILBOX_FULL', retryable: false });
+    });
+
+    it('should distinguish temporary and permanent policy replies', () => {
+        expect(classifySmtpError(smtpError('Rate limited', {
+            code: 'EMESSAGE', responseCode: 421, command: 'DATA', response: '421-4.7.28 Unusual rate of unsolicited mail',
+        }))).toMatchObject({ code: 'RATE_LIMITED', retryable: true });
+        expect(classifySmtpError(smtpError('Blocked', {
+            code: 'EMESSAGE', responseCode: 550, command: 'DATA', response: '550-5.7.1 Message blocked for policy reasons',
+        }))).toMatchObject({ code: 'POLICY_REJECTED', retryable: false });
+    });
+
+    it('should treat routing statuses as transient only for 4xx replies', () => {
+        expect(classifySmtpError(smtpError('Try later', {
+            code: 'EENVELOPE', responseCode: 451, command: 'RCPT TO', response: '451 4.4.0 DNS temporary failure',
+        }))).toMatchObject({ code: 'TRANSIENT_NETWORK', retryable: true });
+        expect(classifySmtpError(smtpError('Rejected', {
+            code: 'EENVELOPE', responseCode: 550, command: 'RCPT TO', response: '550 5.4.1 Recipient address rejected: Access denied',
+        }))).toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false });
+        expect(classifySmtpError(smtpError('Expired', {
+            code: 'EMESSAGE', responseCode: 554, command: 'DATA', response: '554 5.4.7 Delivery time expired',
+        }))).toMatchObject({ code: 'POLICY_REJECTED', retryable: false });
+        expect(classifySmtpError(smtpError('Loop', {
+            code: 'EMESSAGE', responseCode: 550, command: 'DATA', response: '550 5.4.6 Routing loop detected',
+        }))).toMatchObject({ code: 'SEND_FAILED', retryable: false });
+    });
+
+    it('should treat 4.2.1 as rate limiting and 5.2.1 as a rejected recipient', () => {
+        expect(classifySmtpError(smtpError('Slow down', {
+            code: 'EENVELOPE', responseCode: 450, command: 'RCPT TO', response: '450-4.2.1 The user you are trying to contact is receiving mail too quickly',
+        }))).toMatchObject({ code: 'RATE_LIMITED', retryable: true });
+        expect(classifySmtpError(smtpError('Disabled', {
+            code: 'EENVELOPE', responseCode: 550, command: 'RCPT TO', response: '550-5.2.1 The email account that you tried to reach is disabled',
+        }))).toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false });
+    });
+
+    it('should detect Gmail throttling and daily quota with a retry delay', () => {
+        expect(classifySmtpError(smtpError('Try again later', {
+            code: 'EMESSAGE', responseCode: 421, command: 'DATA', response: '421-4.7.0 Try again later, closing connection.',
+        }))).toMatchObject({ code: 'THROTTLED', retryable: true, retryAfter: THROTTLE_RETRY_AFTER });
+        expect(classifySmtpError(smtpError('Quota exceeded', {
+            code: 'EMESSAGE', responseCode: 550, command: 'DATA', response: '550-5.4.5 Daily user sending quota exceeded.',
+        }))).toMatchObject({ code: 'QUOTA_EXCEEDED', retryable: true, retryAfter: QUOTA_RETRY_AFTER });
+    });
+
+    it('should not suggest a delay for other errors', () => {
+        expect(classifySmtpError(smtpError('Blocked', { responseCode: 554, command: 'DATA' })).retryAfter).toBeUndefined();
+    });
+
+    it('should fall back to the basic reply code without an enhanced status code', () => {
+        expect(classifySmtpError(smtpError('No such user', { responseCode: 550, command: 'RCPT TO', response: '550 No such user' })))
+            .toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false });
+        expect(classifySmtpError(smtpError('Service not available', { responseCode: 421, command: 'CONN' })))
+            .toMatchObject({ code: 'TRANSIENT_NETWORK', retryable: true });
+        expect(classifySmtpError(smtpError('Try later', { responseCode: 451, command: 'DATA' })))
+            .toMatchObject({ code: 'SEND_FAILED', retryable: true });
+        expect(classifySmtpError(smtpError('Transaction failed', { responseCode: 554, command: 'DATA' })))
+            .toMatchObject({ code: 'POLICY_REJECTED', retryable: false });
+    });
+
+    it('should treat errors without SMTP details as retryable send failures', () => {
+        expect(classifySmtpError(new Error('Something broke'))).toMatchObject({ code: 'SEND_FAILED', retryable: true });
+        expect(classifySmtpError('String error')).toMatchObject({ code: 'SEND_FAILED', message: 'Unknown error', retryable: true });
+    });
+
+    it('should reject envelopes without valid recipients', () => {
+        expect(classifySmtpError(smtpError('No recipients defined', { code: 'EENVELOPE' })))
+            .toMatchObject({ code: 'RECIPIENT_REJECTED', retryable: false });
+    });
+});
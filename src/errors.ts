@@ -0,0 +1,205 @@
+/**
+ * Error types raised while building or sending a message.
+ */
+
+/**
+ * An error that maps directly onto a failed DeliveryResult.
+ * Thrown by the message pipeline when a notification cannot be delivered
+ * as-is, e.g. an attachment is too large or of a disallowed type.
+ */
+export class DeliveryError extends Error {
+    readonly code: string;
+    readonly retryable: boolean;
+    /** Suggested delay before retrying, in milliseconds */
+    readonly retryAfter?: number;
+
+    constructor(code: string, message: string, retryable = false, retryAfter?: number) {
+        super(message);
+        this.name = 'DeliveryError';
+        this.code = code;
+        this.retryable = retryable;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Invalid provider configuration, thrown by `initialize` with every
+ * problem found rather than just the first one.
+ */
+export class ConfigurationError extends Error {
+    /** One `path: message` entry per problem, e.g. `options.pool.maxConnections: ...` */
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid configuration: ${issues.join('; ')}`);
+        this.name = 'ConfigurationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Suggested back-off after Gmail's "421 4.7.0 Try again later"
+ */
+export const THROTTLE_RETRY_AFTER = 5 * 60 * 1000;
+
+/**
+ * Suggested back-off after Gmail's "550 5.4.5 Daily user sending quota
+ * exceeded". The quota is a rolling 24 hour window, so sending is only
+ * guaranteed to be possible again after a full window.
+ */
+export const QUOTA_RETRY_AFTER = 24 * 60 * 60 * 1000;
+
+/**
+ * Fields nodemailer sets on SMTP and connection errors
+ */
+interface SmtpErrorFields {
+    code?: string;
+    responseCode?: number;
+    command?: string;
+    response?: string;
+}
+
+/**
+ * Nodemailer error codes for failures to reach or talk to the server
+ */
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ETLS', 'EPROXY',
+    'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN',
+]);
+
+/**
+ * Matches the start of an SMTP reply: the reply code and, if present, the
+ * enhanced status code (RFC 3463) that follows it, e.g. `550-5.1.1`
+ */
+const REPLY_PATTERN = /^([245])\d{2}(?:[ -][245]\.(\d{1,3})\.(\d{1,3})\b)?/;
+
+/**
+ * Enhanced status codes of the form X.7.Y that mean the credentials were not accepted
+ */
+const AUTH_STATUS_DETAILS = new Set([8, 9, 14]);
+
+/**
+ * Reply codes for missing or rejected authentication
+ */
+const AUTH_REPLY_CODES = new Set([530, 534, 535]);
+
+/**
+ * Maps an SMTP reply to an error code. The enhanced status code's subject
+ * and detail take precedence over the basic reply code when present.
+ */
+function codeForStatus(
+    statusClass: number,
+    responseCode: number | undefined,
+    enhanced: { subject: number; detail: number } | undefined,
+    command: string
+): string {
+    if (enhanced) {
+        const { subject, detail } = enhanced;
+        if (subject === 2 && detail === 1) {
+            // 4.2.1 is Gmail's "receiving mail too quickly"; 5.2.1 a disabled mailbox
+            return statusClass === 4 ? 'RATE_LIMITED' : 'RECIPIENT_REJECTED';
+        }
+        if (subject === 1) {
+            return 'RECIPIENT_REJECTED';
+        }
+        if ((subject === 2 && detail === 3) || (subject === 3 && detail === 4)) {
+            // 5.2.3 and 5.3.4 reject the message for its size, not the mailbox
+            return 'MESSAGE_TOO_LARGE';
+        }
+        if (subject === 2 && detail === 2) {
+            return 'MAILBOX_FULL';
+        }
+        if (subject === 4) {
+            // Routing problems are only temporary for 4xx replies, e.g. 550 5.4.1 is a rejection
+            if (statusClass === 4) {
+                return 'TRANSIENT_NETWORK';
+            }
+            if (command.startsWith('RCPT')) {
+                return 'RECIPIENT_REJECTED';
+            }
+            return responseCode === 554 ? 'POLICY_REJECTED' : 'SEND_FAILED';
+        }
+        if (subject === 7) {
+            if (AUTH_STATUS_DETAILS.has(detail) || AUTH_REPLY_CODES.has(responseCode ?? 0) || command.startsWith('AUTH')) {
+                return 'AUTH_FAILED';
+            }
+            return statusClass === 4 ? 'RATE_LIMITED' : 'POLICY_REJECTED';
+        }
+    }
+
+    if (AUTH_REPLY_CODES.has(responseCode ?? 0)) {
+        return 'AUTH_FAILED';
+    }
+
+    switch (responseCode) {
+        case 421:
+            return 'TRANSIENT_NETWORK';
+        case 452:
+        case 552:
+            return 'MAILBOX_FULL';
+        case 550:
+        case 551:
+        case 553:
+            return command.startsWith('RCPT') ? 'RECIPIENT_REJECTED' : 'POLICY_REJECTED';
+        case 554:
+            return 'POLICY_REJECTED';
+    }
+
+    return 'SEND_FAILED';
+}
+
+/**
+ * Classifies an error thrown by nodemailer into a DeliveryError.
+ *
+ * Uses the error's `code` (EAUTH, ECONNECTION, ...), the SMTP `responseCode`
+ * and `command`, and the enhanced status code following the reply code in
+ * the server response (5.1.1, 4.2.2, 5.7.x, ...). The message is only read
+ * as a reply when it starts with a reply code, so IP addresses in
+ * connection errors are never taken for a status. 4xx responses and
+ * network failures are retryable; 5xx responses are not, except Gmail's
+ * daily quota (5.4.5), which is reported with a retry delay like
+ * throttling (421 4.7.0).
+ * Errors carrying none of these fields become a retryable SEND_FAILED.
+ *
+ * @param err - The error thrown while sending
+ * @returns A DeliveryError with a specific code and retryability
+ */
+export function classifySmtpError(err: unknown): DeliveryError {
+    if (!(err instanceof Error)) {
+        return new DeliveryError('SEND_FAILED', 'Unknown error', true);
+    }
+
+    const { code, responseCode, command = '', response = '' } = err as Error & SmtpErrorFields;
+
+    // Failures before any reply; their messages may carry IP addresses
+    if (code && NETWORK_ERROR_CODES.has(code)) {
+        return new DeliveryError('TRANSIENT_NETWORK', err.message, true);
+    }
+    if (code === 'EENVELOPE' && responseCode === undefined) {
+        // Raised before contacting the server, e.g. no valid recipients
+        return new DeliveryError('RECIPIENT_REJECTED', err.message, false);
+    }
+
+    const match = REPLY_PATTERN.exec(response) || REPLY_PATTERN.exec(err.message);
+    const enhanced = match?.[2] !== undefined ? { subject: Number(match[2]), detail: Number(match[3]) } : undefined;
+    const statusClass = responseCode !== undefined ? Math.floor(responseCode / 100) : Number(match?.[1]) || undefined;
+
+    if (code === 'EAUTH') {
+        // A 4xx reply to AUTH is a temporary server-side problem
+        return new DeliveryError('AUTH_FAILED', err.message, statusClass === 4);
+    }
+
+    // Gmail throttling and sending quota: retryable, but not right away
+    if (responseCode === 421 && enhanced?.subject === 7 && enhanced.detail === 0) {
+        return new DeliveryError('THROTTLED', err.message, true, THROTTLE_RETRY_AFTER);
+    }
+    if (statusClass === 5 && enhanced?.subject === 4 && enhanced.detail === 5) {
+        return new DeliveryError('QUOTA_EXCEEDED', err.message, true, QUOTA_RETRY_AFTER);
+    }
+
+    if (statusClass === undefined) {
+        return new DeliveryError('SEND_FAILED', err.message, true);
+    }
+
+    return new DeliveryError(codeForStatus(statusClass, responseCode, enhanced, command.toUpperCase()), err.message, statusClass === 4);
+}
@@ -0,0 +1,154 @@
+/**
+ * Bounded HTTP fetching for remote message resources.
+ */
+
+/**
+ * Limits applied to a single remote fetch
+ */
+export interface FetchLimits {
+    /** Maximum response body size in bytes */
+    maxBytes: number;
+    /** Request timeout in milliseconds */
+    timeoutMs: number;
+    /** Hosts the URL and every redirect target must be on; `*.example.com` matches subdomains */
+    allowedHosts?: string[];
+}
+
+/**
+ * Raised when the URL or a redirect points to a host that is not allowed
+ */
+export class HostNotAllowedError extends Error {
+    constructor(host: string) {
+        super(`Host ${host} is not allowed`);
+        this.name = 'HostNotAllowedError';
+    }
+}
+
+/**
+ * Raised when the URL or a redirect uses a protocol other than http(s)
+ */
+export class UnsupportedProtocolError extends Error {
+    constructor(protocol: string) {
+        super(`Unsupported URL protocol "${protocol}"`);
+        this.name = 'UnsupportedProtocolError';
+    }
+}
+
+/**
+ * Redirects followed before giving up
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * A fetched remote resource
+ */
+export interface FetchedResource {
+    content: Buffer;
+    contentType: string | undefined;
+}
+
+/**
+ * Raised when a response body is larger than the allowed size
+ */
+export class ResponseTooLargeError extends Error {
+    readonly size: number;
+
+    constructor(size: number, limit: number) {
+        super(`Response of at least ${size} bytes exceeds limit of ${limit} bytes`);
+        this.name = 'ResponseTooLargeError';
+        this.size = size;
+    }
+}
+
+/**
+ * Whether a URL's host is on the allow-list; `*.example.com` matches subdomains
+ */
+export function isHostAllowed(url: string, allowedHosts: string[]): boolean {
+    let host: string;
+    try {
+        host = new URL(url).hostname.toLowerCase();
+    } catch {
+        return false;
+    }
+    return allowedHosts.some(allowed => {
+        const pattern = allowed.toLowerCase();
+        return pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern;
+    });
+}
+
+function checkUrl(url: string, allowedHosts: string[] | undefined): void {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new UnsupportedProtocolError(protocol);
+    }
+    if (allowedHosts && !isHostAllowed(url, allowedHosts)) {
+        throw new HostNotAllowedError(hostname);
+    }
+}
+
+/**
+ * Fetches an http(s) URL into memory, aborting as soon as the body exceeds
+ * `maxBytes` or the request takes longer than `timeoutMs`. Redirects are
+ * followed one by one so every target is checked against `allowedHosts`.
+ *
+ * @param url - The URL to fetch
+ * @param limits - Size, time and host limits
+ * @returns The response body and its content type
+ * @throws ResponseTooLargeError when the body is too large
+ * @throws HostNotAllowedError when the URL or a redirect is not on `allowedHosts`
+ * @throws UnsupportedProtocolError when the URL or a redirect is not http(s)
+ * @throws Error when the request fails or times out
+ */
+export async function fetchWithLimits(url: string, limits: FetchLimits): Promise<FetchedResource> {
+    const signal = AbortSignal.timeout(limits.timeoutMs);
+    let current = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+        checkUrl(current, limits.allowedHosts);
+        response = await fetch(current, { signal, redirect: 'manual' });
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+            break;
+        }
+        await response.body?.cancel();
+        if (redirects === MAX_REDIRECTS) {
+            throw new Error(`Too many redirects fetching ${url}`);
+        }
+        current = new URL(location, current).href;
+    }
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > limits.maxBytes) {
+        await response.body?.cancel();
+        throw new ResponseTooLargeError(declaredLength, limits.maxBytes);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    if (response.body) {
+        const reader = response.body.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            received += value.byteLength;
+            if (received > limits.maxBytes) {
+                await reader.cancel();
+                throw new ResponseTooLargeError(received, limits.maxBytes);
+            }
+            chunks.push(value);
+        }
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() || undefined;
+
+    return { content: Buffer.concat(chunks), contentType };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildUnsubscribeHeaders, headersSchema, validateUnsubscribeOptions } from './headers.js';
+
+// Mock @simplens/sdk
+vi.mock('@simplens/sdk', async () => {
+    const { z } = await import('zod');
+    return { z };
+});
+
+describe('headersSchema', () => {
+    it('should accept custom headers', () => {
+        expect(headersSchema.safeParse({ 'X-Campaign': 'spring', 'Precedence': 'bulk' }).success).toBe(true);
+    });
+
+    it('should reject protected headers regardless of case', () => {
+        const result = headersSchema.safeParse({ 'BCC': 'spy@example.com', 'list-unsubscribe': '<https://x>' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues.map(issue => issue.message)).toEqual([
+            'Header "BCC" is set by the provider and cannot be overridden',
+            'Header "list-unsubscribe" is set by the provider and cannot be overridden',
+        ]);
+    });
+
+    it('should reject invalid names and values with line breaks', () => {
+        expect(headersSchema.safeParse({ 'X Bad': 'x' }).success).toBe(false);
+        expect(headersSchema.safeParse({ 'X-Injected': 'x\r\nBcc: spy@example.com' }).success).toBe(false);
+    });
+});
+
+describe('validateUnsubscribeOptions', () => {
+    it('should require a url or mailto', () => {
+        expect(() => validateUnsubscribeOptions({ oneClick: true })).toThrow('unsubscribe requires a url or mailto template');
+    });
+
+    it('should require https URLs and email addresses', () => {
+        expect(() => validateUnsubscribeOptions({ url: 'http://example.com/u' })).toThrow('unsubscribe url must be an https URL');
+        expect(() => validateUnsubscribeOptions({ mailto: 'unsubscribe' })).toThrow('unsubscribe mailto must be an email address');
+        expect(() => validateUnsubscribeOptions({
+            url: 'https://example.com/u?id={{user_id}}',
+            mailto: 'mailto:unsubscribe@example.com?subject={{user_id}}',
+        })).not.toThrow();
+    });
+});
+
+describe('buildUnsubscribeHeaders', () => {
+    const values = { user_id: 'user 1&2', notification_id: 'n-1' };
+
+    it('should build mailto and one-click https headers with encoded values', () => {
+        expect(buildUnsubscribeHeaders({
+            url: 'https://example.com/unsubscribe?u={{user_id}}&n={{ notification_id }}',
+            mailto: 'unsubscribe@example.com?subject={{user_id}}',
+        }, values)).toEqual({
+            'List-Unsubscribe': '<mailto:unsubscribe@example.com?subject=user%201%262>, <https://example.com/unsubscribe?u=user%201%262&n=n-1>',
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        });
+    });
+
+    it('should leave out List-Unsubscribe-Post without a URL or when one-click is off', () => {
+        expect(buildUnsubscribeHeaders({ mailto: 'mailto:unsubscribe@example.com' }, values))
+            .toEqual({ 'List-Unsubscribe': '<mailto:unsubscribe@example.com>' });
+        expect(buildUnsubscribeHeaders({ url: 'https://example.com/u', oneClick: false }, values))
+            .toEqual({ 'List-Unsubscribe': '<https://example.com/u>' });
+    });
+
+    it('should keep unknown placeholders', () => {
+        expect(buildUnsubscribeHeaders({ url: 'https://example.com/u/{{list}}' }, values)['List-Unsubscribe'])
+            .toBe('<https://example.com/u/{{list}}>');
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Custom message headers and List-Unsubscribe support.
+ *
+ * Notifications may add their own headers, except for the ones the provider
+ * (or nodemailer) controls. Bulk senders to Gmail must offer unsubscribing:
+ * the `unsubscribe` option generates List-Unsubscribe (mailto and https) and
+ * RFC 8058 one-click List-Unsubscribe-Post headers for every recipient.
+ */
+
+import { z } from '@simplens/sdk';
+
+/**
+ * Headers a notification may not set (compared case-insensitively)
+ */
+export const PROTECTED_HEADERS = [
+    'from', 'sender', 'to', 'cc', 'bcc', 'reply-to', 'subject', 'date', 'message-id',
+    'return-path', 'received', 'mime-version', 'content-type', 'content-transfer-encoding',
+    'content-disposition', 'content-id', 'dkim-signature', 'list-unsubscribe', 'list-unsubscribe-post',
+];
+
+/**
+ * RFC 5322 field name: printable ASCII except the colon
+ */
+const HEADER_NAME_PATTERN = /^[!-9;-~]+$/;
+
+/**
+ * Custom headers schema: valid names, single-line values, nothing protected
+ */
+export const headersSchema = z.record(z.string(), z.string()).superRefine((headers, ctx) => {
+    for (const [name, value] of Object.entries(headers)) {
+        if (!HEADER_NAME_PATTERN.test(name)) {
+            ctx.addIssue({ code: 'custom', path: [name], message: `Invalid header name "${name}"` });
+        } else if (PROTECTED_HEADERS.includes(name.toLowerCase())) {
+            ctx.addIssue({ code: 'custom', path: [name], message: `Header "${name}" is set by the provider and cannot be overridden` });
+        }
+        if (/[\r\n]/.test(value)) {
+            ctx.addIssue({ code: 'custom', path: [name], message: `Header "${name}" must not contain line breaks` });
+        }
+    }
+});
+
+/**
+ * Unsubscribe options, configured under `options.unsubscribe`. Templates may
+ * use `{{user_id}}` and `{{notification_id}}`, which are URL-encoded.
+ */
+export interface UnsubscribeOptions {
+    /** https URL template for unsubscribing, e.g. `https://example.com/unsubscribe?u={{user_id}}` */
+    url?: string;
+    /** mailto address template, e.g. `unsubscribe@example.com?subject={{user_id}}` */
+    mailto?: string;
+    /** Add List-Unsubscribe-Post for one-click unsubscribing via `url` (default: true) */
+    oneClick?: boolean;
+}
+
+/**
+ * Checks the unsubscribe templates
+ *
+ * @throws Error when neither template is given or the URL is not https
+ */
+export function validateUnsubscribeOptions(options: UnsubscribeOptions): void {
+    if (!options.url && !options.mailto) {
+        throw new Error('unsubscribe requires a url or mailto template');
+    }
+    if (options.url !== undefined && !/^https:\/\/[^\s<>]+$/i.test(options.url)) {
+        throw new Error(`unsubscribe url must be an https URL, got ${JSON.stringify(options.url)}`);
+    }
+    if (options.mailto !== undefined && !/^(mailto:)?[^\s@<>]+@[^\s@<>?]+(\?[^\s<>]*)?$/i.test(options.mailto)) {
+        throw new Error(`unsubscribe mailto must be an email address, got ${JSON.stringify(options.mailto)}`);
+    }
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+        key in values ? encodeURIComponent(values[key]) : match
+    );
+}
+
+/**
+ * Builds the List-Unsubscribe headers for one recipient
+ *
+ * @param options - Validated unsubscribe options
+ * @param values - Template values (`user_id`, `notification_id`)
+ * @returns Headers to add to the message
+ */
+export function buildUnsubscribeHeaders(options: UnsubscribeOptions, values: Record<string, string>): Record<string, string> {
+    const targets: string[] = [];
+    if (options.mailto) {
+        targets.push(`<mailto:${fillTemplate(options.mailto.replace(/^mailto:/i, ''), values)}>`);
+    }
+    if (options.url) {
+        targets.push(`<${fillTemplate(options.url, values)}>`);
+    }
+
+    return {
+        'List-Unsubscribe': targets.join(', '),
+        ...(options.url && options.oneClick !== false && { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }),
+    };
+}
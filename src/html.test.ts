@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToText, processHtml } from './html.js';
+
+describe('htmlToText', () => {
+    it('should turn block elements into paragraphs and lines', () => {
+        expect(htmlToText('<h1>Welcome</h1><p>First   paragraph</p><div>Line one<br>Line two</div>'))
+            .toBe('WELCOME\n\nFirst paragraph\n\nLine one\nLine two');
+    });
+
+    it('should skip head, style and script content', () => {
+        expect(htmlToText('<html><head><title>T</title><style>p { color: red }</style></head><body><script>x()</script><p>Body</p></body></html>'))
+            .toBe('Body');
+    });
+
+    it('should keep links as numbered footnotes', () => {
+        expect(htmlToText('<p>See <a href="https://a.example/docs">the docs</a> and <a href="https://b.example">pricing</a>, or <a href="https://a.example/docs">docs again</a>.</p>'))
+            .toBe('See the docs [1] and pricing [2], or docs again [1].\n\n[1] https://a.example/docs\n[2] https://b.example');
+    });
+
+    it('should not footnote links that already show their URL', () => {
+        expect(htmlToText('<p><a href="https://example.com">https://example.com</a> <a href="mailto:help@example.com">help@example.com</a> <a href="#top">top</a></p>'))
+            .toBe('https://example.com help@example.com top');
+    });
+
+    it('should flatten table rows', () => {
+        expect(htmlToText('<table><tr><th>Item</th><th>Price</th></tr><tr><td>Pen</td><td>$2</td></tr></table>'))
+            .toBe('Item | Price\nPen | $2');
+    });
+
+    it('should unwrap layout tables', () => {
+        expect(htmlToText('<table><tr><td><p>Left column</p><p>More</p></td><td>Right</td></tr></table>'))
+            .toBe('Left column\n\nMore\n\nRight');
+    });
+
+    it('should replace images with their alt text', () => {
+        expect(htmlToText('<p><img src="cid:logo" alt="ACME logo"><img src="spacer.gif">Hello</p>'))
+            .toBe('ACME logo Hello');
+    });
+
+    it('should render list markers', () => {
+        expect(htmlToText('<ul><li>One</li><li>Two</li></ul><ol><li>First</li><li>Second</li></ol>'))
+            .toBe('- One\n- Two\n\n1. First\n2. Second');
+    });
+
+    it('should keep the whitespace of preformatted text', () => {
+        expect(htmlToText('<pre>  indented\n    more</pre>')).toBe('  indented\n    more');
+        expect(htmlToText('<p>Run   this:</p><pre>\n$ npm  install\n\n\n\tdone</pre><p>Then   restart</p>'))
+            .toBe('Run this:\n\n$ npm  install\n\n\n\tdone\n\nThen restart');
+    });
+
+    it('should decode entities', () => {
+        expect(htmlToText('<p>Tom &amp; Jerry&nbsp;&lt;3</p>')).toBe('Tom & Jerry <3');
+    });
+});
+
+describe('processHtml', () => {
+    it('should return the HTML untouched when no stage is enabled', () => {
+        const html = '<p onclick="x()">Hi &amp; bye</p><script>x()</script>';
+        expect(processHtml(html)).toEqual({ html, transformations: [] });
+    });
+
+    it('should strip scripts, disallowed tags, event handlers and script URLs', () => {
+        const result = processHtml(
+            '<p onclick="steal()">Hi &amp; bye</p><script>x()</script><form><input name="q"></form><a href="javascript:x()">x</a>',
+            { sanitize: true }
+        );
+
+        expect(result.html).toBe('<p>Hi &amp; bye</p><a>x</a>');
+        expect(result.transformations).toEqual([
+            'removed 1 <script> element',
+            'removed 1 <form> element',
+            'removed 1 event handler attribute',
+            'removed 1 script URL',
+        ]);
+    });
+
+    it.each([
+        '&#106;avascript:x()',
+        '&#x6A;&#x61;vascript:x()',
+        'java\tscript:x()',
+        'java&#10;script:x()',
+        ' \u0001javascript:x()',
+        'VBScript:x()',
+        'data:text/html;base64,PHNjcmlwdD4=',
+    ])('should strip the encoded or obfuscated script URL %j', href => {
+        const result = processHtml(`<a href="${href}">x</a>`, { sanitize: true });
+
+        expect(result.html).toBe('<a>x</a>');
+        expect(result.transformations).toEqual(['removed 1 script URL']);
+    });
+
+    it('should keep data URLs that are not HTML', () => {
+        const html = '<img src="data:image/png;base64,iVBORw0KGgo=">';
+        expect(processHtml(html, { sanitize: true })).toEqual({ html, transformations: [] });
+    });
+
+    it('should honour a custom disallowed tag list', () => {
+        const result = processHtml('<p>a</p><video src="v.mp4"></video><script></script>', {
+            sanitize: true,
+            disallowedTags: ['video'],
+        });
+
+        expect(result.html).toBe('<p>a</p><script></script>');
+    });
+
+    it('should rewrite relative URLs against the base URL', () => {
+        const result = processHtml(
+            '<a href="/account?a=1&amp;b=2">Account</a><img src="img/logo.png" srcset="img/a.png 1x, https://cdn.example/b.png 2x"><a href="#top">Top</a><img src="cid:x"><a href="mailto:a@b.c">Mail</a>',
+            { baseUrl: 'https://app.example.com/mail/' }
+        );
+
+        expect(result.html).toBe(
+            '<a href="https://app.example.com/account?a=1&amp;b=2">Account</a>'
+            + '<img src="https://app.example.com/mail/img/logo.png" srcset="https://app.example.com/mail/img/a.png 1x, https://cdn.example/b.png 2x">'
+            + '<a href="#top">Top</a><img src="cid:x"><a href="mailto:a@b.c">Mail</a>'
+        );
+        expect(result.transformations).toEqual(['rewrote 3 relative URLs against https://app.example.com/mail/']);
+    });
+
+    it('should inline CSS and keep media queries', () => {
+        const result = processHtml(
+            '<html><head><style>p { color: red; } @media (max-width: 600px) { p { color: blue; } }</style></head><body><p>Hi</p></body></html>',
+            { inlineCss: true }
+        );
+
+        expect(result.html).toContain('<p style="color: red;">Hi</p>');
+        expect(result.html).toContain('@media (max-width: 600px)');
+        expect(result.transformations).toEqual(['inlined CSS from 1 <style> block']);
+    });
+
+    it('should not touch HTML without style blocks when inlining', () => {
+        expect(processHtml('<p>Hi</p>', { inlineCss: true })).toEqual({ html: '<p>Hi</p>', transformations: [] });
+    });
+});
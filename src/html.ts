@@ -0,0 +1,387 @@
+/**
+ * HTML helpers for email bodies: the email-safe post-processing pipeline
+ * and plain-text alternative generation.
+ */
+
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { type AnyNode, type ChildNode, type Element, isDocument, isTag, isText } from 'domhandler';
+import renderDom from 'dom-serializer';
+import { decodeHTML } from 'entities';
+import juice from 'juice';
+
+/**
+ * HTML processing options, configured under `options.html`
+ */
+export interface HtmlOptions {
+    /** Generate a plain-text alternative for HTML messages (default: true) */
+    textAlternative?: boolean;
+    /** Inline `<style>` rules into `style` attributes (default: false) */
+    inlineCss?: boolean;
+    /** Remove scripts, event handlers and disallowed tags (default: false) */
+    sanitize?: boolean;
+    /** Tags removed when sanitizing (default: DEFAULT_DISALLOWED_TAGS) */
+    disallowedTags?: string[];
+    /** Base URL that relative links and image sources are resolved against */
+    baseUrl?: string;
+}
+
+/**
+ * Tags that email clients strip or that are unsafe in email
+ */
+export const DEFAULT_DISALLOWED_TAGS = [
+    'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+    'form', 'input', 'button', 'select', 'textarea', 'base', 'link', 'meta',
+];
+
+/**
+ * Result of running the HTML pipeline
+ */
+export interface ProcessedHtml {
+    html: string;
+    /** Human-readable description of every change made */
+    transformations: string[];
+}
+
+/**
+ * Attributes holding a single URL
+ */
+const URL_ATTRIBUTES = ['href', 'src', 'background', 'poster'];
+
+function countLabel(count: number, singular: string, plural = `${singular}s`): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+}
+
+function isDetached(node: AnyNode): boolean {
+    let current: AnyNode = node;
+    while (current.parent) {
+        current = current.parent;
+    }
+    return !isDocument(current);
+}
+
+/**
+ * Whether a URL attribute value runs script or renders active content:
+ * `javascript:`, `vbscript:` and `data:text/html` URLs
+ */
+function isScriptUrl(value: string): boolean {
+    // Attributes are parsed without decoding entities, so `&#106;avascript:` still
+    // has to be decoded; URL parsers also ignore tabs, newlines and control characters
+    const url = decodeHTML(value).replace(/[\u0000-\u001F\u007F]/g, '').trim().toLowerCase();
+    return /^(?:javascript|vbscript):/.test(url) || /^data:\s*text\/html/.test(url);
+}
+
+/**
+ * Removes disallowed elements, inline event handlers and script URLs
+ */
+function sanitize(nodes: AnyNode[], disallowedTags: string[], transformations: string[]): boolean {
+    const disallowed = new Set(disallowedTags.map(tag => tag.toLowerCase()));
+    const removed: Record<string, number> = {};
+    let handlers = 0;
+    let scriptUrls = 0;
+
+    for (const element of DomUtils.findAll(() => true, nodes)) {
+        if (isDetached(element)) {
+            // Inside an element that was already removed
+            continue;
+        }
+        if (disallowed.has(element.name)) {
+            removed[element.name] = (removed[element.name] || 0) + 1;
+            DomUtils.removeElement(element);
+            continue;
+        }
+
+        for (const [name, value] of Object.entries(element.attribs)) {
+            if (/^on/i.test(name)) {
+                delete element.attribs[name];
+                handlers++;
+            } else if (URL_ATTRIBUTES.includes(name) && isScriptUrl(value)) {
+                delete element.attribs[name];
+                scriptUrls++;
+            }
+        }
+    }
+
+    for (const [tag, count] of Object.entries(removed)) {
+        transformations.push(`removed ${countLabel(count, `<${tag}> element`)}`);
+    }
+    if (handlers > 0) {
+        transformations.push(`removed ${countLabel(handlers, 'event handler attribute')}`);
+    }
+    if (scriptUrls > 0) {
+        transformations.push(`removed ${countLabel(scriptUrls, 'script URL')}`);
+    }
+
+    return Object.keys(removed).length > 0 || handlers > 0 || scriptUrls > 0;
+}
+
+/**
+ * Resolves a URL against the base unless it is absolute or a fragment
+ */
+function absolutize(url: string, baseUrl: string): string {
+    const trimmed = url.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+        return url;
+    }
+    try {
+        return new URL(trimmed, baseUrl).toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Rewrites relative URLs in URL attributes and `srcset` against the base URL
+ */
+function rewriteUrls(nodes: AnyNode[], baseUrl: string, transformations: string[]): boolean {
+    let rewritten = 0;
+
+    for (const element of DomUtils.findAll(() => true, nodes)) {
+        for (const name of URL_ATTRIBUTES) {
+            const value = element.attribs[name];
+            if (value === undefined) continue;
+            const resolved = absolutize(value, baseUrl);
+            if (resolved !== value) {
+                element.attribs[name] = resolved;
+                rewritten++;
+            }
+        }
+
+        const srcset = element.attribs.srcset;
+        if (srcset !== undefined) {
+            const resolved = srcset
+                .split(',')
+                .map(candidate => {
+                    const [url, ...descriptor] = candidate.trim().split(/\s+/);
+                    return [absolutize(url, baseUrl), ...descriptor].join(' ');
+                })
+                .join(', ');
+            if (resolved !== srcset) {
+                element.attribs.srcset = resolved;
+                rewritten++;
+            }
+        }
+    }
+
+    if (rewritten > 0) {
+        transformations.push(`rewrote ${countLabel(rewritten, 'relative URL')} against ${baseUrl}`);
+    }
+    return rewritten > 0;
+}
+
+/**
+ * Runs the email-safe HTML pipeline: sanitizing, relative URL rewriting and
+ * CSS inlining, in that order. Each stage is opt-in; the HTML is returned
+ * untouched when no stage changes anything.
+ *
+ * @param html - The rendered HTML body
+ * @param options - HTML pipeline options
+ * @returns The processed HTML and a list of transformations applied
+ */
+export function processHtml(html: string, options: HtmlOptions = {}): ProcessedHtml {
+    const transformations: string[] = [];
+    let result = html;
+
+    if (options.sanitize || options.baseUrl) {
+        // Keep entities as written so unchanged markup round-trips exactly
+        const document = parseDocument(html, { decodeEntities: false });
+        let changed = false;
+
+        if (options.sanitize) {
+            changed = sanitize(document.children, options.disallowedTags || DEFAULT_DISALLOWED_TAGS, transformations) || changed;
+        }
+        if (options.baseUrl) {
+            changed = rewriteUrls(document.children, options.baseUrl, transformations) || changed;
+        }
+        if (changed) {
+            result = renderDom(document, { encodeEntities: false });
+        }
+    }
+
+    if (options.inlineCss) {
+        const styleBlocks = DomUtils.getElementsByTagName('style', parseDocument(result).children).length;
+        if (styleBlocks > 0) {
+            result = juice(result, { preserveMediaQueries: true, preserveFontFaces: true });
+            transformations.push(`inlined CSS from ${countLabel(styleBlocks, '<style> block')}`);
+        }
+    }
+
+    return { html: result, transformations };
+}
+
+/**
+ * Elements whose content never appears in the text version
+ */
+const SKIPPED_ELEMENTS = new Set(['head', 'title', 'style', 'script', 'noscript', 'template']);
+
+/**
+ * Elements rendered as separate paragraphs
+ */
+const PARAGRAPH_ELEMENTS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'table', 'blockquote', 'pre', 'hr',
+]);
+
+/**
+ * Elements rendered on their own line
+ */
+const LINE_ELEMENTS = new Set([
+    'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside',
+    'tr', 'dt', 'dd', 'address', 'center', 'body', 'html', 'tbody', 'thead', 'tfoot',
+]);
+
+/**
+ * Stands in for the text of a `<pre>` block during normalization; private-use
+ * characters do not occur in real text
+ */
+const prePlaceholder = (index: number) => `\uE000${index}\uE001`;
+const PRE_PLACEHOLDER_PATTERN = /\uE000(\d+)\uE001/g;
+
+/**
+ * State shared while converting one document
+ */
+interface TextContext {
+    links: string[];
+    inPre: boolean;
+    /** Text of `<pre>` blocks, kept out of whitespace normalization */
+    preBlocks: string[];
+}
+
+function renderChildren(nodes: ChildNode[], context: TextContext): string {
+    return nodes.map(node => renderNode(node, context)).join('');
+}
+
+function renderTable(table: Element, context: TextContext): string {
+    const rows: Element[] = [];
+    const collectRows = (nodes: ChildNode[]) => {
+        for (const node of nodes) {
+            if (!isTag(node) || node.name === 'table') continue;
+            if (node.name === 'tr') rows.push(node);
+            else collectRows(node.children);
+        }
+    };
+    collectRows(table.children);
+
+    const lines = rows.map(row => {
+        const cells = row.children
+            .filter((cell): cell is Element => isTag(cell) && (cell.name === 'td' || cell.name === 'th'))
+            .map(cell => normalizeText(renderChildren(cell.children, context)))
+            .filter(cell => cell !== '');
+
+        // Layout tables nest whole blocks in cells; keep those as separate blocks
+        return cells.some(cell => cell.includes('\n')) ? cells.join('\n\n') : cells.join(' | ');
+    });
+
+    return `\n\n${lines.filter(line => line !== '').join('\n')}\n\n`;
+}
+
+function renderNode(node: ChildNode, context: TextContext): string {
+    if (isText(node)) {
+        return context.inPre ? node.data : node.data.replace(/\s+/g, ' ');
+    }
+    if (!isTag(node) || SKIPPED_ELEMENTS.has(node.name)) {
+        return '';
+    }
+
+    switch (node.name) {
+        case 'br':
+            return '\n';
+        case 'hr':
+            return '\n\n----------\n\n';
+        case 'img': {
+            const alt = (node.attribs.alt || '').trim();
+            return alt ? ` ${alt} ` : '';
+        }
+        case 'table':
+            return renderTable(node, context);
+        case 'pre': {
+            const inPre = context.inPre;
+            context.inPre = true;
+            const text = renderChildren(node.children, context);
+            context.inPre = inPre;
+            if (inPre) {
+                return `\n\n${text}\n\n`;
+            }
+            // A newline right after <pre> is not part of its content
+            context.preBlocks.push(text.replace(/^\r?\n/, '').trimEnd());
+            return `\n\n${prePlaceholder(context.preBlocks.length - 1)}\n\n`;
+        }
+        case 'a':
+            return renderLink(node, context);
+        case 'li': {
+            const parent = node.parent as Element | null;
+            const index = parent?.children.filter(child => isTag(child) && child.name === 'li').indexOf(node) ?? 0;
+            const marker = parent?.name === 'ol' ? `${index + 1}. ` : '- ';
+            return `\n${marker}${renderChildren(node.children, context).trim()}`;
+        }
+    }
+
+    const text = renderChildren(node.children, context);
+
+    if (/^h[12]$/.test(node.name)) {
+        return `\n\n${text.trim().toUpperCase()}\n\n`;
+    }
+    if (PARAGRAPH_ELEMENTS.has(node.name)) {
+        return `\n\n${text}\n\n`;
+    }
+    if (LINE_ELEMENTS.has(node.name)) {
+        return `\n${text}\n`;
+    }
+    return text;
+}
+
+/**
+ * Renders link text followed by a footnote marker pointing at the URL
+ */
+function renderLink(link: Element, context: TextContext): string {
+    const text = renderChildren(link.children, context);
+    const href = (link.attribs.href || '').trim();
+    const label = text.trim();
+
+    // In-page anchors, scripts and links that already show their URL need no footnote
+    if (!href || href.startsWith('#') || /^javascript:/i.test(href) || label === href || `mailto:${label}` === href) {
+        return text;
+    }
+
+    let index = context.links.indexOf(href);
+    if (index === -1) {
+        context.links.push(href);
+        index = context.links.length - 1;
+    }
+
+    return label ? `${text} [${index + 1}]` : `[${index + 1}]`;
+}
+
+/**
+ * Collapses whitespace around line breaks and limits blank lines to one
+ */
+function normalizeText(text: string): string {
+    return text
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n[ \t]+/g, '\n')
+        .replace(/ {2,}/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Converts an HTML email body into a readable plain-text alternative.
+ *
+ * - Block elements become lines and paragraphs, list items get markers
+ * - Links are kept as numbered footnotes listed at the end
+ * - Table rows become lines with cells separated by " | "
+ * - Images are replaced by their alt text
+ *
+ * @param html - The HTML body
+ * @returns Plain-text version of the body
+ */
+export function htmlToText(html: string): string {
+    const context: TextContext = { links: [], inPre: false, preBlocks: [] };
+    const text = normalizeText(renderChildren(parseDocument(html).children, context))
+        .replace(PRE_PLACEHOLDER_PATTERN, (_match, index: string) => context.preBlocks[Number(index)]);
+
+    if (context.links.length === 0) {
+        return text;
+    }
+
+    const footnotes = context.links.map((href, index) => `[${index + 1}] ${href}`).join('\n');
+    return `${text}\n\n${footnotes}`;
+}
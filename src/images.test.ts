@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RemoteImageCache, embedRemoteImages, extractBase64Images } from './images.js';
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>').toString('base64');
+const GIF = 'R0lGODlhAQABAAAAACw=';
+
+describe('extractBase64Images', () => {
+    it('should leave HTML without data URIs untouched', () => {
+        const html = '<p class=x>Hi &amp; <img src="https://example.com/a.png"/></p>';
+        expect(extractBase64Images(html)).toEqual({ html, attachments: [] });
+    });
+
+    it('should extract images whose src is the first attribute or uses single quotes', () => {
+        const { html, attachments } = extractBase64Images(`<img src='data:image/png;base64,${PNG}'/><IMG\nSRC="data:image/png;base64,${GIF}">`);
+
+        expect(attachments).toHaveLength(2);
+        expect(html).toBe(`<img src='cid:${attachments[0].cid}'/><IMG\nSRC="cid:${attachments[1].cid}">`);
+    });
+
+    it('should support subtypes such as svg+xml and MIME parameters', () => {
+        const { html, attachments } = extractBase64Images(`<img alt="logo" src="data:image/svg+xml;charset=utf-8;base64,${SVG}">`);
+
+        expect(attachments).toEqual([{
+            filename: 'image-0.svg',
+            content: Buffer.from(SVG, 'base64'),
+            cid: attachments[0].cid,
+            contentType: 'image/svg+xml',
+        }]);
+        expect(html).toBe(`<img alt="logo" src="cid:${attachments[0].cid}">`);
+    });
+
+    it('should extract srcset candidates', () => {
+        const { html, attachments } = extractBase64Images(
+            `<img srcset="data:image/png;base64,${PNG} 1x, data:image/gif;base64,${GIF} 2x">`
+        );
+
+        expect(attachments.map(a => a.contentType)).toEqual(['image/png', 'image/gif']);
+        expect(html).toBe(`<img srcset="cid:${attachments[0].cid} 1x, cid:${attachments[1].cid} 2x">`);
+    });
+
+    it('should extract CSS background images from style attributes and style blocks', () => {
+        const { html, attachments } = extractBase64Images(
+            `<style>.hero { background-image: url("data:image/png;base64,${PNG}"); }</style>`
+            + `<td style="background: url(data:image/gif;base64,${GIF}) no-repeat">x</td>`
+        );
+
+        expect(attachments).toHaveLength(2);
+        expect(html).toBe(
+            `<style>.hero { background-image: url("cid:${attachments[0].cid}"); }</style>`
+            + `<td style="background: url(cid:${attachments[1].cid}) no-repeat">x</td>`
+        );
+    });
+
+    it('should deduplicate identical images into one attachment', () => {
+        const { html, attachments } = extractBase64Images(
+            `<img src="data:image/png;base64,${PNG}"><img src="data:image/png;base64,${PNG}">`
+        );
+
+        expect(attachments).toHaveLength(1);
+        expect(html).toBe(`<img src="cid:${attachments[0].cid}"><img src="cid:${attachments[0].cid}">`);
+    });
+
+    it('should produce deterministic CIDs', () => {
+        const html = `<img src="data:image/png;base64,${PNG}">`;
+        const first = extractBase64Images(html);
+        const second = extractBase64Images(html);
+
+        expect(first.attachments[0].cid).toMatch(/^embedded-image-0-[0-9a-f]{16}$/);
+        expect(second).toEqual(first);
+    });
+
+    it('should ignore data URIs outside image attributes and style blocks', () => {
+        const html = `<p>data:image/png;base64,${PNG}</p><a href="data:image/png;base64,${PNG}">x</a>`;
+        expect(extractBase64Images(html)).toEqual({ html, attachments: [] });
+    });
+});
+
+describe('embedRemoteImages', () => {
+    const options = { allowedHosts: ['cdn.example.com', '*.assets.example.com'] };
+    const png = Buffer.from(PNG, 'base64');
+    const imageResponse = () => new Response(png, { headers: { 'content-type': 'image/png' } });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should embed images from allowed hosts and deduplicate repeated URLs', async () => {
+        const fetchMock = vi.fn().mockImplementation(async () => imageResponse());
+        vi.stubGlobal('fetch', fetchMock);
+
+        const { html, attachments, failures } = await embedRemoteImages(
+            '<img src="https://cdn.example.com/logo.png?v=1&amp;s=2"><img src="https://cdn.example.com/logo.png?v=1&amp;s=2">',
+            options,
+            new RemoteImageCache()
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][0]).toBe('https://cdn.example.com/logo.png?v=1&s=2');
+        expect(attachments).toEqual([{
+            filename: 'remote-image-0.png',
+            content: png,
+            cid: attachments[0].cid,
+            contentType: 'image/png',
+        }]);
+        expect(html).toBe(`<img src="cid:${attachments[0].cid}"><img src="cid:${attachments[0].cid}">`);
+        expect(failures).toEqual([]);
+    });
+
+    it('should only rewrite the src attribute', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => imageResponse()));
+
+        const { html, attachments } = await embedRemoteImages(
+            `<img alt="https://cdn.example.com/a.png" src="https://cdn.example.com/a.png"><img src=https://cdn.example.com/a.png title='https://cdn.example.com/a.png'>`,
+            options,
+            new RemoteImageCache()
+        );
+
+        const cid = attachments[0].cid;
+        expect(html).toBe(`<img alt="https://cdn.example.com/a.png" src="cid:${cid}"><img src=cid:${cid} title='https://cdn.example.com/a.png'>`);
+    });
+
+    it('should refuse redirects to hosts outside the allow-list', async () => {
+        const fetchMock = vi.fn().mockImplementation(async () => new Response(null, {
+            status: 302,
+            headers: { location: 'http://localhost:8080/admin' },
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const { html, attachments, failures } = await embedRemoteImages(
+            '<img src="https://cdn.example.com/logo.png">',
+            options,
+            new RemoteImageCache()
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][1]).toEqual(expect.objectContaining({ redirect: 'manual' }));
+        expect(attachments).toEqual([]);
+        expect(html).toBe('<img src="https://cdn.example.com/logo.png">');
+        expect(failures).toEqual([{ url: 'https://cdn.example.com/logo.png', reason: 'Host localhost is not allowed' }]);
+    });
+
+    it('should follow redirects within the allow-list', async () => {
+        const fetchMock = vi.fn()
+            .mockImplementationOnce(async () => new Response(null, { status: 301, headers: { location: '/v2/logo.png' } }))
+            .mockImplementationOnce(async () => imageResponse());
+        vi.stubGlobal('fetch', fetchMock);
+
+        const { attachments, failures } = await embedRemoteImages(
+            '<img src="https://cdn.example.com/logo.png">',
+            options,
+            new RemoteImageCache()
+        );
+
+        expect(fetchMock.mock.calls[1][0]).toBe('https://cdn.example.com/v2/logo.png');
+        expect(attachments).toHaveLength(1);
+        expect(failures).toEqual([]);
+    });
+
+    it('should leave images on other hosts untouched without fetching', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        const html = '<img src="https://tracker.example.net/pixel.gif"><img src="https://evil.com/x.png?cdn.example.com">';
+
+        expect(await embedRemoteImages(html, options, new RemoteImageCache()))
+            .toEqual({ html, attachments: [], failures: [] });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should match wildcard hosts', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => imageResponse()));
+
+        const { attachments } = await embedRemoteImages(
+            '<img src="https://eu.assets.example.com/a.png">',
+            options,
+            new RemoteImageCache()
+        );
+
+        expect(attachments).toHaveLength(1);
+    });
+
+    it('should fall back to the URL when fetching fails or returns a non-image', async () => {
+        vi.stubGlobal('fetch', vi.fn()
+            .mockRejectedValueOnce(new Error('ECONNRESET'))
+            .mockResolvedValueOnce(new Response('<html>', { headers: { 'content-type': 'text/html' } })));
+        const html = '<img src="https://cdn.example.com/a.png"><img src="https://cdn.example.com/b.png">';
+
+        const result = await embedRemoteImages(html, options, new RemoteImageCache());
+
+        expect(result.html).toBe(html);
+        expect(result.attachments).toEqual([]);
+        expect(result.failures.map(failure => failure.url).sort())
+            .toEqual(['https://cdn.example.com/a.png', 'https://cdn.example.com/b.png']);
+    });
+
+    it('should not embed images over the size limit', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => imageResponse()));
+
+        const result = await embedRemoteImages(
+            '<img src="https://cdn.example.com/a.png">',
+            { ...options, maxSize: 10 },
+            new RemoteImageCache()
+        );
+
+        expect(result.attachments).toEqual([]);
+        expect(result.failures).toHaveLength(1);
+    });
+
+    it('should reuse cached images across calls until they expire', async () => {
+        vi.useFakeTimers();
+        try {
+            const fetchMock = vi.fn().mockImplementation(async () => imageResponse());
+            vi.stubGlobal('fetch', fetchMock);
+            const cache = new RemoteImageCache(1000);
+            const html = '<img src="https://cdn.example.com/a.png">';
+
+            await embedRemoteImages(html, options, cache);
+            await embedRemoteImages(html, options, cache);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(1001);
+            await embedRemoteImages(html, options, cache);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe('RemoteImageCache', () => {
+    it('should evict the least recently used entry when full', () => {
+        const cache = new RemoteImageCache(60_000, 2);
+        cache.set('a', Buffer.from('a'), 'image/png');
+        cache.set('b', Buffer.from('b'), 'image/png');
+        cache.get('a');
+        cache.set('c', Buffer.from('c'), 'image/png');
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')?.content).toEqual(Buffer.from('a'));
+        expect(cache.size).toBe(2);
+    });
+});
@@ -0,0 +1,330 @@
+/**
+ * Embedding of images referenced by HTML bodies as CID attachments.
+ *
+ * Most email clients block `data:` URIs, so inline base64 images are moved
+ * into attachments and referenced with `cid:` URLs instead. Optionally,
+ * images on allow-listed hosts that recipients cannot reach (e.g. internal
+ * asset servers) are downloaded and embedded the same way.
+ */
+
+import { createHash } from 'node:crypto';
+import { Parser } from 'htmlparser2';
+import { fetchWithLimits, isHostAllowed } from './fetch.js';
+
+/**
+ * Attachment interface for embedded images
+ */
+export interface ImageAttachment {
+    filename: string;
+    content: Buffer;
+    cid: string;
+    contentType: string;
+}
+
+/**
+ * Result of extracting base64 images from HTML
+ */
+export interface ExtractedImages {
+    html: string;
+    attachments: ImageAttachment[];
+}
+
+/**
+ * A region of the source HTML that may contain image data URIs
+ */
+interface SourceRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Attributes whose value is (or contains) an image URL
+ */
+const IMAGE_ATTRIBUTES = ['src', 'srcset', 'background', 'style'];
+
+/**
+ * Matches a base64 image data URI, e.g. `data:image/svg+xml;charset=utf-8;base64,PHN2Zz4=`
+ */
+const DATA_URI_PATTERN = /data:(image\/[a-z0-9.+-]+)((?:;[a-z0-9-]+=[^;,"'()\s]+)*);base64,([A-Za-z0-9+/]+={0,2})/gi;
+
+/**
+ * File extension for an image MIME type (`image/svg+xml` -> `svg`, `image/x-icon` -> `icon`)
+ */
+function extensionFor(mimeType: string): string {
+    return mimeType.split('/')[1].split('+')[0].replace(/^x-/, '');
+}
+
+/**
+ * Finds the source ranges that can hold embeddable images: tags with an
+ * image attribute containing a data URI, and the text of `<style>` blocks.
+ */
+function findImageRanges(html: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+    let inStyle = false;
+
+    const parser = new Parser({
+        onopentag(name, attribs) {
+            inStyle = name === 'style';
+            if (IMAGE_ATTRIBUTES.some(attribute => attribs[attribute]?.includes('data:'))) {
+                ranges.push({ start: parser.startIndex, end: parser.endIndex + 1 });
+            }
+        },
+        ontext(text) {
+            if (inStyle && text.includes('data:')) {
+                ranges.push({ start: parser.startIndex, end: parser.endIndex + 1 });
+            }
+        },
+        onclosetag() {
+            inStyle = false;
+        },
+    }, { decodeEntities: false });
+
+    parser.write(html);
+    parser.end();
+
+    return ranges;
+}
+
+/**
+ * Extracts base64 encoded images from HTML and converts them to CID attachments.
+ * This is necessary because most email clients block inline base64 images.
+ *
+ * Images are found in `src`, `srcset` and `background` attributes, in CSS
+ * `url(...)` values of `style` attributes and `<style>` blocks. Identical
+ * images are attached once, and CIDs are derived from the image content so
+ * the same input always produces the same message.
+ *
+ * @param html - The HTML content containing base64 images
+ * @returns Object with processed HTML (cid: references) and attachments array
+ */
+export function extractBase64Images(html: string): ExtractedImages {
+    const attachments: ImageAttachment[] = [];
+    const cidsByHash = new Map<string, string>();
+
+    const replaceDataUris = (source: string) => source.replace(DATA_URI_PATTERN, (match, mimeType: string, _params, base64Data: string) => {
+        const contentType = mimeType.toLowerCase();
+        const content = Buffer.from(base64Data, 'base64');
+        const hash = createHash('sha256').update(contentType).update(content).digest('hex');
+
+        let cid = cidsByHash.get(hash);
+        if (!cid) {
+            const imageIndex = attachments.length;
+            cid = `embedded-image-${imageIndex}-${hash.slice(0, 16)}`;
+            cidsByHash.set(hash, cid);
+            attachments.push({
+                filename: `image-${imageIndex}.${extensionFor(contentType)}`,
+                content,
+                cid,
+                contentType,
+            });
+        }
+
+        return `cid:${cid}`;
+    });
+
+    // Splice replacements into the original source so untouched markup is preserved byte for byte
+    let processedHtml = '';
+    let lastIndex = 0;
+    for (const { start, end } of findImageRanges(html)) {
+        processedHtml += html.slice(lastIndex, start) + replaceDataUris(html.slice(start, end));
+        lastIndex = end;
+    }
+    processedHtml += html.slice(lastIndex);
+
+    return { html: processedHtml, attachments };
+}
+
+/**
+ * Remote image embedding options, configured under `options.remoteImages`
+ */
+export interface RemoteImageOptions {
+    /** Embed remote images (default: false) */
+    enabled?: boolean;
+    /** Hosts images may be fetched from; `*.example.com` matches subdomains */
+    allowedHosts?: string[];
+    /** Maximum size of a single image in bytes (default: 5 MB) */
+    maxSize?: number;
+    /** Fetch timeout in milliseconds (default: 5000) */
+    timeout?: number;
+    /** How long fetched images are cached, in milliseconds (default: 1 hour) */
+    cacheTtl?: number;
+    /** Maximum number of cached images (default: 100) */
+    cacheSize?: number;
+}
+
+export const DEFAULT_REMOTE_IMAGE_OPTIONS = {
+    maxSize: 5 * 1024 * 1024,
+    timeout: 5000,
+    cacheTtl: 60 * 60 * 1000,
+    cacheSize: 100,
+};
+
+interface CachedImage {
+    content: Buffer;
+    contentType: string;
+    expiresAt: number;
+}
+
+/**
+ * Least-recently-used cache of fetched images, keyed by URL
+ */
+export class RemoteImageCache {
+    private readonly entries = new Map<string, CachedImage>();
+
+    constructor(
+        private readonly ttl = DEFAULT_REMOTE_IMAGE_OPTIONS.cacheTtl,
+        private readonly maxEntries = DEFAULT_REMOTE_IMAGE_OPTIONS.cacheSize
+    ) { }
+
+    get(url: string): CachedImage | undefined {
+        const entry = this.entries.get(url);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(url);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        this.entries.set(url, entry);
+        return entry;
+    }
+
+    set(url: string, content: Buffer, contentType: string): void {
+        this.entries.delete(url);
+        this.entries.set(url, { content, contentType, expiresAt: Date.now() + this.ttl });
+
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
+
+/**
+ * Result of embedding remote images
+ */
+export interface EmbeddedRemoteImages extends ExtractedImages {
+    /** URLs that were left in place, with the reason */
+    failures: Array<{ url: string; reason: string }>;
+}
+
+/**
+ * Finds `<img src="http(s)://...">` tags, returning the range of each raw src value
+ */
+function findRemoteImages(html: string): Array<SourceRange & { src: string }> {
+    const images: Array<SourceRange & { src: string }> = [];
+    let src: SourceRange | undefined;
+
+    const parser = new Parser({
+        onopentagname() {
+            src = undefined;
+        },
+        onattribute(name, value, quote) {
+            // Only the first src counts, as for the parsed attributes
+            if (name === 'src' && !src) {
+                // endIndex is past the closing quote of quoted values
+                const end = parser.endIndex - (quote ? 1 : 0);
+                src = { start: end - value.length, end };
+            }
+        },
+        onopentag(name, attribs) {
+            if (name === 'img' && src && /^https?:\/\//i.test(attribs.src.trim())) {
+                images.push({ ...src, src: attribs.src.trim() });
+            }
+        },
+    }, { decodeEntities: false });
+
+    parser.write(html);
+    parser.end();
+
+    return images;
+}
+
+/**
+ * Downloads `<img>` sources on allow-listed hosts and embeds them as CID
+ * attachments. Images that cannot be fetched (host not allowed, too large,
+ * timed out, not an image) keep their original URL.
+ *
+ * @param html - The HTML content
+ * @param options - Allow-list and fetch limits
+ * @param cache - Cache of previously fetched images
+ * @returns Processed HTML, new attachments, and the URLs left in place
+ */
+export async function embedRemoteImages(
+    html: string,
+    options: RemoteImageOptions,
+    cache: RemoteImageCache
+): Promise<EmbeddedRemoteImages> {
+    const limits = { ...DEFAULT_REMOTE_IMAGE_OPTIONS, ...options };
+    const allowedHosts = options.allowedHosts || [];
+    const images = findRemoteImages(html);
+    const failures: EmbeddedRemoteImages['failures'] = [];
+
+    // Attribute values are raw source text; only &amp; is expected in URLs
+    const urls = [...new Set(images.map(image => image.src))];
+    const fetched = new Map<string, CachedImage>();
+
+    await Promise.all(urls.map(async src => {
+        const url = src.replace(/&amp;/g, '&');
+
+        if (!isHostAllowed(url, allowedHosts)) {
+            return;
+        }
+
+        const cached = cache.get(url);
+        if (cached) {
+            fetched.set(src, cached);
+            return;
+        }
+
+        try {
+            const { content, contentType } = await fetchWithLimits(url, {
+                maxBytes: limits.maxSize,
+                timeoutMs: limits.timeout,
+                allowedHosts,
+            });
+            if (!contentType?.startsWith('image/')) {
+                throw new Error(`Unexpected content type ${contentType || 'none'}`);
+            }
+            cache.set(url, content, contentType);
+            fetched.set(src, { content, contentType, expiresAt: 0 });
+        } catch (err) {
+            failures.push({ url, reason: err instanceof Error ? err.message : 'Unknown error' });
+        }
+    }));
+
+    const attachments: ImageAttachment[] = [];
+    const cidsByHash = new Map<string, string>();
+    const cidFor = (image: CachedImage) => {
+        const hash = createHash('sha256').update(image.contentType).update(image.content).digest('hex');
+        let cid = cidsByHash.get(hash);
+        if (!cid) {
+            const imageIndex = attachments.length;
+            cid = `remote-image-${imageIndex}-${hash.slice(0, 16)}`;
+            cidsByHash.set(hash, cid);
+            attachments.push({
+                filename: `remote-image-${imageIndex}.${extensionFor(image.contentType)}`,
+                content: image.content,
+                cid,
+                contentType: image.contentType,
+            });
+        }
+        return cid;
+    };
+
+    let processedHtml = '';
+    let lastIndex = 0;
+    for (const { start, end, src } of images) {
+        const image = fetched.get(src);
+        if (image) {
+            processedHtml += html.slice(lastIndex, start) + `cid:${cidFor(image)}`;
+            lastIndex = end;
+        }
+    }
+    processedHtml += html.slice(lastIndex);
+
+    return { html: processedHtml, attachments, failures };
+}
@@ -7,6 +7,9 @@
 
 import nodemailer from 'nodemailer';
 import type { Transporter, SendMailOptions } from 'nodemailer';
+import * as socks from 'socks';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
 import {
     z,
     type SimpleNSProvider,
@@ -17,113 +20,282 @@ import {
     baseNotificationSchema,
     isHtmlContent,
 } from '@simplens/sdk';
+import {
+    type AuthType,
+    AUTH_REQUIRED_CREDENTIALS,
+    AUTH_OPTIONAL_CREDENTIALS,
+    resolveAuthType,
+    buildAuth,
+} from './auth.js';
+import {
+    type AttachmentOptions,
+    attachmentSchema,
+    resolveAttachments,
+    assertMessageSize,
+} from './attachments.js';
+import { type ProviderOptions, configSchema, parseConfig } from './config.js';
+import {
+    type CaptureOptions,
+    type CapturedMessage,
+    MessageCapture,
+} from './capture.js';
+import {
+    type AccountHealth,
+    type AccountOptions,
+    type SmtpAccount,
+    AccountPool,
+    parseAccountCredentials,
+} from './accounts.js';
+import {
+    type DkimOptions,
+    type ResolvedDkimKey,
+    dkimSigningOptions,
+    isAligned,
+    parseDkimKeys,
+    signMessage,
+} from './dkim.js';
+import { DeliveryError, classifySmtpError } from './errors.js';
+import {
+    type UnsubscribeOptions,
+    buildUnsubscribeHeaders,
+    headersSchema,
+} from './headers.js';
+import { type HtmlOptions, htmlToText, processHtml } from './html.js';
+import {
+    type RemoteImageOptions,
+    RemoteImageCache,
+    embedRemoteImages,
+    extractBase64Images,
+} from './images.js';
+import {
+    type LogFields,
+    type Logger,
+    consoleLogger,
+    createLogger,
+    redactEmails,
+} from './logger.js';
+import { METRICS, type Metrics, guardMetrics, noopMetrics } from './metrics.js';
+import { type Middleware, MiddlewareChain } from './middleware.js';
+import {
+    type PoolOptions,
+    type PoolStats,
+    DEFAULT_POOL_OPTIONS,
+    SendTracker,
+} from './pool.js';
+import {
+    type QuotaOptions,
+    type QuotaStore,
+    FileQuotaStore,
+    MemoryQuotaStore,
+    QUOTA_WINDOW,
+    QuotaTracker,
+} from './quota.js';
+import { TokenBucket } from './rate-limit.js';
+import {
+    type ConnectionOptions,
+    buildConnectionOptions,
+    isSocksProxy,
+    resolveEndpoint,
+} from './transport.js';
+import {
+    type TemplatingOptions,
+    render,
+    stripLineBreaks,
+} from './template.js';
+import {
+    type Span,
+    type Tracer,
+    SPAN_STATUS_ERROR,
+    SPAN_STATUS_OK,
+    guardTracer,
+    noopTracer,
+} from './tracing.js';
+
+/**
+ * One email address or a non-empty list of them
+ */
+const emailListSchema = z.union([
+    z.string().email(),
+    z.array(z.string().email()).min(1),
+]);
+
+/**
+ * Email recipient schema
+ */
+const recipientSchema = z.object({
+    user_id: z.string(),
+    email: emailListSchema,
+    cc: emailListSchema.optional(),
+    bcc: emailListSchema.optional(),
+});
+
+/**
+ * Email content schema
+ */
+const contentSchema = z.object({
+    subject: z.string().optional(),
+    message: z.string(),
+    text: z.string().optional(),
+    reply_to: emailListSchema.optional(),
+    attachments: z.array(attachmentSchema).optional(),
+    headers: headersSchema.optional(),
+    /** Set to false to leave out List-Unsubscribe headers, e.g. for transactional mail */
+    unsubscribe: z.boolean().optional(),
+});
+
+/**
+ * Delivery status of a single recipient address
+ */
+export interface RecipientStatus {
+    address: string;
+    field: 'to' | 'cc' | 'bcc';
+    status: 'accepted' | 'rejected' | 'pending';
+}
 
 /**
- * Attachment interface for embedded images
+ * An attachment of a rendered message, including embedded images
  */
-interface ImageAttachment {
+export interface RenderedAttachment {
     filename: string;
-    content: Buffer;
-    cid: string;
     contentType: string;
+    /** Size of the decoded content in bytes */
+    size: number;
+    /** Content-ID referenced from the HTML body, for embedded images */
+    cid?: string;
 }
 
 /**
- * Result of extracting base64 images from HTML
+ * A notification rendered exactly as `send` would transmit it
  */
-interface ExtractedImages {
-    html: string;
-    attachments: ImageAttachment[];
+export interface RenderedMessage {
+    messageId: string;
+    subject: string;
+    html?: string;
+    text?: string;
+    attachments: RenderedAttachment[];
+    /** Top-level message headers, keyed by lower-case name */
+    headers: Record<string, string>;
+    /** The complete RFC 822 source */
+    raw: string;
+    htmlTransformations: string[];
 }
 
 /**
- * Extracts base64 encoded images from HTML and converts them to CID attachments.
- * This is necessary because most email clients block inline base64 images.
- * 
- * @param html - The HTML content containing base64 images
- * @returns Object with processed HTML (cid: references) and attachments array
+ * Options passed to the provider constructor (or `createProvider`), for
+ * extension points that cannot be expressed in `config.options`
  */
-function extractBase64Images(html: string): ExtractedImages {
-    const attachments: ImageAttachment[] = [];
-
-    // Regex to match base64 image data URIs in img src attributes
-    // Matches: <img ... src="data:image/TYPE;base64,DATA" ...>
-    const base64ImageRegex = /<img([^>]*)\ssrc=["']data:(image\/(\w+));base64,([^"']+)["']([^>]*)>/gi;
-
-    let imageIndex = 0;
-    const processedHtml = html.replace(base64ImageRegex, (match, before, mimeType, extension, base64Data, after) => {
-        const cid = `embedded-image-${imageIndex}-${Date.now()}`;
-        const filename = `image-${imageIndex}.${extension}`;
-
-        attachments.push({
-            filename,
-            content: Buffer.from(base64Data, 'base64'),
-            cid,
-            contentType: mimeType,
-        });
+export interface GmailProviderOptions {
+    /** Persistence for quota tracking (default: in-memory, or a file when `options.quota.path` is set) */
+    quotaStore?: QuotaStore;
+    /** Where log events go (default: the console); level and redaction are set with `options.logging` */
+    logger?: Logger;
+    /** Receives delivery counters, send latency and health (default: no-op) */
+    metrics?: Metrics;
+    /** OpenTelemetry-compatible tracer, one span per send (default: no-op) */
+    tracer?: Tracer;
+    /** Hooks around rendering and sending, run in order */
+    middleware?: Middleware[];
+}
+
+/**
+ * Options for `sendBatch`
+ */
+export interface BatchOptions {
+    /**
+     * Longest time to wait for the rate limiter before failing the remaining
+     * items with RATE_LIMITED, in milliseconds (default: 60000)
+     */
+    maxWait?: number;
+}
 
-        imageIndex++;
-        return `<img${before} src="cid:${cid}"${after}>`;
-    });
+const DEFAULT_BATCH_MAX_WAIT = 60000;
 
-    return { html: processedHtml, attachments };
+/**
+ * Errors that take an account out of rotation and move the send to the next account
+ */
+const FAILOVER_ERROR_CODES = new Set(['AUTH_FAILED', 'THROTTLED', 'QUOTA_EXCEEDED']);
+
+/**
+ * How long an account that failed authentication is skipped, in milliseconds
+ */
+const ACCOUNT_COOLDOWN = 15 * 60 * 1000;
+
+/**
+ * Result for sends refused because `shutdown` has started
+ */
+function shuttingDown(): DeliveryResult {
+    return {
+        success: false,
+        error: {
+            code: 'SHUTTING_DOWN',
+            message: 'Provider is shutting down',
+            retryable: true,
+        },
+    };
 }
 
 /**
- * Replaces template variables in a string using multiple common patterns.
- * 
- * Supported patterns:
- * - {{variable}} - Handlebars/Mustache style
- * - ${variable}  - ES6 template literal style
- * - {variable}   - Simple brace style
- * - $variable    - Shell/PHP style (word characters only)
- * 
- * @param template - The template string containing variables
- * @param variables - Record of variable names to values
- * @returns The template with all variables replaced
+ * Normalizes an address list (string or array) into an array
  */
-function replaceTemplateVariables(
-    template: string,
-    variables: Record<string, unknown>
-): string {
-    let result = template;
-
-    // Define all supported patterns with their regex
-    // Order matters: more specific patterns first to avoid partial matches
-    const patterns = [
-        /\{\{(\w+)\}\}/g,  // {{variable}}
-        /\$\{(\w+)\}/g,    // ${variable}
-        /\{(\w+)\}/g,      // {variable}
-        /\$(\w+)/g,        // $variable
-    ];
-
-    for (const pattern of patterns) {
-        result = result.replace(pattern, (match, varName) => {
-            if (varName in variables) {
-                return String(variables[varName]);
-            }
-            return match; // Leave unmatched patterns as-is
-        });
+function toAddressList(value: string | string[] | undefined): string[] {
+    if (!value) {
+        return [];
     }
-
-    return result;
+    return Array.isArray(value) ? value : [value];
 }
 
 /**
- * Email recipient schema
+ * Reads the top-level header block of an RFC 822 message, unfolding
+ * continuation lines. Repeated headers are joined with newlines.
  */
-const recipientSchema = z.object({
-    user_id: z.string(),
-    email: z.string().email(),
-});
+function parseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const block = raw.split(/\r?\n\r?\n/, 1)[0].replace(/\r?\n[ \t]+/g, ' ');
+
+    for (const line of block.split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        const name = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+        headers[name] = name in headers ? `${headers[name]}\n${value}` : value;
+    }
+
+    return headers;
+}
 
 /**
- * Email content schema
+ * Maps every to/cc/bcc address onto the accepted/rejected/pending lists
+ * reported by Nodemailer. Addresses the server did not list are accepted,
+ * since sendMail only resolves once the envelope has been taken.
+ * 
+ * @param recipient - The notification recipient
+ * @param info - Nodemailer send info
+ * @returns Status for each recipient address
  */
-const contentSchema = z.object({
-    subject: z.string().optional(),
-    message: z.string(),
-});
+function getRecipientStatuses(
+    recipient: z.infer<typeof recipientSchema>,
+    info: { rejected?: Array<string | { address: string }>; pending?: Array<string | { address: string }> }
+): RecipientStatus[] {
+    const normalize = (list: Array<string | { address: string }> | undefined) =>
+        new Set((list || []).map(entry => (typeof entry === 'string' ? entry : entry.address).toLowerCase()));
+
+    const rejected = normalize(info.rejected);
+    const pending = normalize(info.pending);
+
+    const fields = [
+        ['to', recipient.email],
+        ['cc', recipient.cc],
+        ['bcc', recipient.bcc],
+    ] as const;
+
+    return fields.flatMap(([field, value]) =>
+        toAddressList(value).map((address): RecipientStatus => {
+            const key = address.toLowerCase();
+            const status = rejected.has(key) ? 'rejected' : pending.has(key) ? 'pending' : 'accepted';
+            return { address, field, status };
+        })
+    );
+}
 
 /**
  * Complete Gmail notification schema
@@ -145,31 +317,87 @@ export type GmailNotification = z.infer<typeof gmailNotificationSchema>;
  * 
  * Sends emails using Gmail SMTP via Nodemailer.
  * 
- * Required credentials:
- * - EMAIL_HOST: SMTP host (default: smtp.gmail.com)
- * - EMAIL_PORT: SMTP port (default: 587)
+ * Required credentials (login auth, the default):
  * - EMAIL_USER: Gmail address
  * - EMAIL_PASS: App password (not regular password)
  * 
+ * Required credentials (EMAIL_AUTH_TYPE=oauth2):
+ * - EMAIL_USER, EMAIL_CLIENT_ID, EMAIL_CLIENT_SECRET, EMAIL_REFRESH_TOKEN
+ * 
+ * Required credentials (EMAIL_AUTH_TYPE=service_account):
+ * - EMAIL_USER: Mailbox to impersonate via domain-wide delegation
+ * - EMAIL_SERVICE_CLIENT: Service account client ID or email
+ * - EMAIL_PRIVATE_KEY: Service account private key (PEM)
+ * 
  * Optional:
+ * - EMAIL_HOST: SMTP host (default: smtp.gmail.com)
+ * - EMAIL_PORT: SMTP port (default: 587)
  * - EMAIL_FROM: From address (defaults to EMAIL_USER)
+ * - EMAIL_AUTH_TYPE: login | oauth2 | service_account (default: login)
+ * - EMAIL_ACCESS_TOKEN: Initial OAuth2 access token
+ * - EMAIL_DAILY_LIMIT: Sends allowed in a rolling 24 hour window
+ * 
+ * Multiple accounts:
+ * - EMAIL_ACCOUNTS: JSON array of per-account credentials (the keys above),
+ *   merged over the top-level credentials
  */
 export class GmailProvider implements SimpleNSProvider<GmailNotification> {
-    private transporter: Transporter | null = null;
-    private fromEmail: string = '';
-    private config: ProviderConfig | null = null;
-
-    readonly manifest: ProviderManifest = {
-        name: 'simplens-plugin-nodemailer-gmail',
-        version: '1.0.0',
-        channel: 'email',
-        displayName: 'Gmail (Nodemailer)',
-        description: 'Send emails via Gmail SMTP using Nodemailer',
-        author: 'Adhish Krishna S',
-        homepage: 'https://github.com/SimpleNotificationSystem/plugin-nodemailer-gmail',
-        requiredCredentials: ['EMAIL_USER', 'EMAIL_PASS'],
-        optionalConfig: ['EMAIL_HOST', 'EMAIL_PORT', 'EMAIL_FROM'],
-    };
+    private accounts: AccountPool | null = null;
+    private quota: QuotaTracker | null = null;
+    private readonly memoryQuotaStore = new MemoryQuotaStore();
+    private rateLimiter: TokenBucket | null = null;
+    /** Validated `config.options` */
+    private options: ProviderOptions = {};
+    private authType: AuthType = 'login';
+    private usesAccountList = false;
+    private remoteImageCache: RemoteImageCache | null = null;
+    private capture: MessageCapture | null = null;
+    private dkimKeys: ResolvedDkimKey[] | null = null;
+    private readonly sends = new SendTracker();
+    private closing = false;
+
+    private logger: Logger;
+    private readonly metrics: Metrics;
+    private readonly tracer: Tracer;
+    private readonly middleware: MiddlewareChain;
+
+    constructor(private readonly providerOptions: GmailProviderOptions = {}) {
+        this.logger = createLogger(providerOptions.logger || consoleLogger);
+        // Like middleware hooks, a failing sink must not change the delivery result
+        const instrumentationFailed = (err: unknown) => {
+            this.logger.warn('Instrumentation failed', { error: err instanceof Error ? err.message : String(err) });
+        };
+        this.metrics = providerOptions.metrics ? guardMetrics(providerOptions.metrics, instrumentationFailed) : noopMetrics;
+        this.tracer = providerOptions.tracer ? guardTracer(providerOptions.tracer, instrumentationFailed) : noopTracer;
+        this.middleware = new MiddlewareChain(providerOptions.middleware);
+    }
+
+    /**
+     * Provider manifest. Hosts check `requiredCredentials` before
+     * `initialize`, and no credential is needed by every configuration
+     * (EMAIL_ACCOUNTS replaces the top-level EMAIL_USER), so none is listed;
+     * the credentials of the selected auth mode are enforced by `initialize`.
+     */
+    get manifest(): ProviderManifest {
+        const authCredentials = Object.values(AUTH_REQUIRED_CREDENTIALS)
+            .flat()
+            .filter((key, index, all) => all.indexOf(key) === index);
+
+        return {
+            name: 'simplens-plugin-nodemailer-gmail',
+            version: '1.0.0',
+            channel: 'email',
+            displayName: 'Gmail (Nodemailer)',
+            description: 'Send emails via Gmail SMTP using Nodemailer',
+            author: 'Adhish Krishna S',
+            homepage: 'https://github.com/SimpleNotificationSystem/plugin-nodemailer-gmail',
+            requiredCredentials: [],
+            optionalConfig: [
+                'EMAIL_HOST', 'EMAIL_PORT', 'EMAIL_FROM', 'EMAIL_DAILY_LIMIT', 'EMAIL_ACCOUNTS',
+                ...AUTH_OPTIONAL_CREDENTIALS, ...authCredentials,
+            ],
+        };
+    }
 
     getNotificationSchema() {
         return gmailNotificationSchema;
@@ -187,8 +415,7 @@ export class GmailProvider implements SimpleNSProvider<GmailNotification> {
         // Gmail limits: ~500 emails/day for regular accounts
         // ~2000/day for Google Workspace
         // Default: 100 tokens, refill 10/second (~100/min max)
-        const options = this.config?.options as Record<string, unknown> | undefined;
-        const rateLimit = options?.rateLimit as { maxTokens?: number; refillRate?: number; refillInterval?: 'second' | 'minute' | 'hour' | 'day' } | undefined;
+        const rateLimit = this.options.rateLimit;
 
         return {
             maxTokens: rateLimit?.maxTokens || 500, //default set to 500 emails / day for regular emails
@@ -197,50 +424,443 @@ export class GmailProvider implements SimpleNSProvider<GmailNotification> {
         };
     }
 
+    private getAttachmentOptions(): AttachmentOptions {
+        return this.options.attachments || {};
+    }
+
+    private getHtmlOptions(): HtmlOptions {
+        return this.options.html || {};
+    }
+
+    private getRemoteImageOptions(): RemoteImageOptions {
+        return this.options.remoteImages || {};
+    }
+
+    private getPoolOptions(): PoolOptions {
+        return this.options.pool || {};
+    }
+
+    private getAccountOptions(): AccountOptions {
+        return this.options.accounts || {};
+    }
+
+    private getQuotaOptions(): QuotaOptions {
+        return this.options.quota || {};
+    }
+
+    private getTemplatingOptions(): TemplatingOptions {
+        return this.options.templating || {};
+    }
+
+    private getCaptureOptions(): CaptureOptions {
+        return this.options.capture || {};
+    }
+
+    private getDkimOptions(): DkimOptions {
+        return this.options.dkim || {};
+    }
+
+    private getUnsubscribeOptions(): UnsubscribeOptions {
+        return this.options.unsubscribe || {};
+    }
+
+    /**
+     * Schema of the provider configuration (`credentials` and `options`)
+     */
+    getConfigSchema() {
+        return configSchema;
+    }
+
+    /**
+     * Validates the configuration and sets up every account. With
+     * `options.verifyOnInitialize`, also checks each account's SMTP connection.
+     *
+     * @throws ConfigurationError listing every invalid credential and option
+     */
     async initialize(config: ProviderConfig): Promise<void> {
-        this.config = config;
+        const { credentials, options } = parseConfig(config.credentials, config.options);
+        this.options = options;
+        this.logger = createLogger(this.providerOptions.logger || consoleLogger, options.logging);
+
+        const remoteImageOptions = this.getRemoteImageOptions();
+        this.remoteImageCache = remoteImageOptions.enabled
+            ? new RemoteImageCache(remoteImageOptions.cacheTtl, remoteImageOptions.cacheSize)
+            : null;
 
-        const host = config.options?.['EMAIL_HOST'] as string || 'smtp.gmail.com';
-        const port = parseInt(config.options?.['EMAIL_PORT'] as string || '587', 10);
-        const user = config.credentials['EMAIL_USER'];
-        const pass = config.credentials['EMAIL_PASS'];
+        const captureOptions = this.getCaptureOptions();
+        this.capture = captureOptions.enabled ? new MessageCapture(captureOptions) : null;
 
-        if (!user || !pass) {
-            throw new Error('EMAIL_USER and EMAIL_PASS are required');
+        const transport = options.transport || {};
+        const connection = await buildConnectionOptions(transport);
+        const pool = { ...DEFAULT_POOL_OPTIONS, ...this.getPoolOptions() };
+        const accountOptions = this.getAccountOptions();
+
+        this.usesAccountList = Boolean(credentials['EMAIL_ACCOUNTS']);
+        // Credentials were validated above, so building accounts cannot fail
+        const accounts = parseAccountCredentials(credentials).map((accountCredentials): SmtpAccount => {
+            const authType = resolveAuthType(accountCredentials);
+            const user = accountCredentials['EMAIL_USER'];
+            const { host, port } = resolveEndpoint(accountCredentials, options);
+            const transportOptions: ConnectionOptions = {
+                host,
+                port,
+                secure: transport.secure ?? port === 465,
+                auth: buildAuth(authType, accountCredentials),
+                ...connection,
+            };
+
+            return {
+                user,
+                from: accountCredentials['EMAIL_FROM'] || user,
+                authType,
+                transportOptions,
+                // In capture mode messages are only serialized, never sent
+                transporter: this.capture
+                    ? this.capture.transporter
+                    : this.createTransporter(transportOptions, authType, pool.enabled ? pool : undefined),
+                dailyLimit: accountCredentials['EMAIL_DAILY_LIMIT'] ? parseInt(accountCredentials['EMAIL_DAILY_LIMIT'], 10) : accountOptions.dailyLimit,
+                unavailableUntil: 0,
+            };
+        });
+
+        if (options.verifyOnInitialize && !this.capture) {
+            await this.verifyAccounts(accounts);
+        }
+
+        this.dkimKeys = options.dkim ? parseDkimKeys(options.dkim) : null;
+        for (const account of accounts) {
+            if (this.dkimKeys && !isAligned(account.from, this.dkimKeys)) {
+                this.logger.warn('Sender does not align with any DKIM signing domain, DMARC may fail', { from: account.from });
+            }
         }
 
-        this.fromEmail = config.credentials['EMAIL_FROM'] || user;
+        // Counts of earlier sends, possibly from before a restart
+        const quotaOptions = this.getQuotaOptions();
+        const quotaStore = this.providerOptions.quotaStore
+            || (quotaOptions.path ? new FileQuotaStore(quotaOptions.path) : this.memoryQuotaStore);
+        this.quota = new QuotaTracker(quotaStore, QUOTA_WINDOW, this.logger);
+        await this.quota.load(accounts.map(account => account.user));
 
-        this.transporter = nodemailer.createTransport({
-            host,
-            port,
-            secure: port === 465,
-            auth: { user, pass },
-            connectionTimeout: 10000,
-            greetingTimeout: 10000,
-            socketTimeout: 30000,
+        this.rateLimiter = null;
+        this.authType = accounts[0].authType;
+        this.accounts = new AccountPool(accounts, this.quota, accountOptions.strategy);
+
+        const endpoints = [...new Set(accounts.map(account => `${account.transportOptions.host}:${account.transportOptions.port}`))];
+        const details = [
+            this.usesAccountList ? `${accounts.length} accounts, ${accountOptions.strategy || 'round-robin'}` : `${this.authType} auth`,
+            ...(pool.enabled && !this.capture ? [`pool of ${pool.maxConnections}`] : []),
+            ...(transport.proxy ? [`via proxy ${new URL(transport.proxy).host}`] : []),
+            ...(this.dkimKeys ? [`DKIM ${[...new Set(this.dkimKeys.map(key => key.domainName))].join(', ')}`] : []),
+            ...(this.capture ? [`capturing to ${captureOptions.directory || 'memory'}`] : []),
+        ];
+        this.logger.info(`Initialized with host: ${endpoints.join(', ')} (${details.join(', ')})`);
+    }
+
+    /**
+     * Checks every account's SMTP connection, closing all transporters and
+     * throwing with each failure when any account cannot connect or log in
+     */
+    private async verifyAccounts(accounts: SmtpAccount[]): Promise<void> {
+        const results = await Promise.allSettled(accounts.map(account => account.transporter.verify()));
+        const failures = results.flatMap((result, index) => {
+            if (result.status === 'fulfilled') {
+                return [];
+            }
+            const error = classifySmtpError(result.reason);
+            return [`${accounts[index].user}: ${error.code} ${error.message}`];
         });
 
-        console.log(`[GmailProvider] Initialized with host: ${host}:${port}`);
+        if (failures.length > 0) {
+            for (const account of accounts) {
+                account.transporter.close();
+            }
+            throw new Error(`SMTP verification failed: ${failures.join('; ')}`);
+        }
     }
 
+    /**
+     * Creates a transporter for an account, pooled when pool options are given
+     */
+    private createTransporter(
+        transportOptions: ConnectionOptions,
+        authType: AuthType,
+        pool?: Required<Omit<PoolOptions, 'enabled' | 'drainTimeout'>>
+    ): Transporter {
+        const transporter = nodemailer.createTransport({
+            ...transportOptions,
+            ...(pool && {
+                pool: true,
+                maxConnections: pool.maxConnections,
+                maxMessages: pool.maxMessages,
+                // Pooled connections are closed after this much inactivity. An
+                // explicit transport.socketTimeout (never combined with idleTimeout) wins
+                socketTimeout: this.options.transport?.socketTimeout ?? pool.idleTimeout,
+            }),
+        });
+
+        if (isSocksProxy(transportOptions.proxy)) {
+            transporter.set('proxy_socks_module', socks);
+        }
+
+        if (authType !== 'login') {
+            // Nodemailer refreshes OAuth2 access tokens on its own; surface renewals
+            transporter.on('token', token => {
+                this.logger.info('OAuth2 access token refreshed', { account: token.user, expires: new Date(token.expires).toISOString() });
+            });
+        }
+
+        return transporter;
+    }
+
+    /**
+     * Verifies every account that is not backing off. Healthy when at least
+     * one account can send; see `getAccountHealth` for details.
+     */
     async healthCheck(): Promise<boolean> {
-        if (!this.transporter) {
+        if (!this.accounts) {
             return false;
         }
 
-        try {
-            await this.transporter.verify();
-            console.log('[GmailProvider] SMTP connection verified');
+        if (this.capture) {
+            // Nothing is sent, so there is no connection to verify
             return true;
-        } catch (err) {
-            console.error('[GmailProvider] Health check failed:', err);
-            return false;
         }
+
+        for (const account of this.accounts.accounts) {
+            if (Date.now() < account.unavailableUntil) {
+                this.logger.warn('Account backing off', { account: account.user, until: new Date(account.unavailableUntil).toISOString() });
+                continue;
+            }
+
+            try {
+                await account.transporter.verify();
+                this.accounts.recordCheck(account);
+                this.logger.info('SMTP connection verified', { account: account.user });
+            } catch (err) {
+                this.accounts.recordCheck(account, err instanceof Error ? err.message : 'Unknown error');
+                const error = classifySmtpError(err);
+                this.logger.error('Health check failed', { account: account.user, errorCode: error.code, error: error.message });
+            }
+        }
+
+        const healthy = this.accounts.health().some(account => account.healthy);
+        this.metrics.gauge(METRICS.healthy, healthy ? 1 : 0);
+        return healthy;
+    }
+
+    /**
+     * Renders a notification into the final message without sending it:
+     * the same pipeline as `send`, serialized as sent from the first account.
+     * Useful for previews and snapshot tests.
+     *
+     * @throws DeliveryError - When the notification cannot be rendered (e.g. MISSING_VARIABLES)
+     */
+    async render(notification: GmailNotification): Promise<RenderedMessage> {
+        const account = this.accounts?.accounts[0];
+        if (!account) {
+            throw new DeliveryError('NOT_INITIALIZED', 'Transporter not initialized');
+        }
+
+        const { mailOptions, htmlTransformations } = await this.buildMessage(notification);
+        // Composed like the SMTP transport does, so Bcc stays out of the headers
+        const message = new MailComposer({ ...mailOptions, from: account.from }).compile();
+        let built = await message.build();
+        if (mailOptions.dkim) {
+            built = await signMessage(built, mailOptions.dkim);
+        }
+        const raw = built.toString('utf8');
+
+        return {
+            messageId: message.messageId(),
+            subject: mailOptions.subject as string,
+            ...(typeof mailOptions.html === 'string' && { html: mailOptions.html }),
+            ...(typeof mailOptions.text === 'string' && { text: mailOptions.text }),
+            attachments: (mailOptions.attachments || []).map((attachment): RenderedAttachment => ({
+                filename: String(attachment.filename),
+                contentType: attachment.contentType || 'application/octet-stream',
+                size: Buffer.isBuffer(attachment.content) ? attachment.content.length : 0,
+                ...(attachment.cid && { cid: attachment.cid }),
+            })),
+            headers: parseHeaders(raw),
+            raw,
+            htmlTransformations,
+        };
+    }
+
+    /**
+     * Availability, usage and last error of each SMTP account
+     */
+    getAccountHealth(): AccountHealth[] {
+        return this.accounts?.health() || [];
+    }
+
+    /**
+     * Send activity and, in pooled mode, connection utilization
+     */
+    getPoolStats(): PoolStats {
+        const pool = { ...DEFAULT_POOL_OPTIONS, ...this.getPoolOptions() };
+        const accountCount = this.accounts?.accounts.length || 1;
+        return this.sends.stats(pool.enabled ? pool.maxConnections * accountCount : null);
     }
 
     async send(notification: GmailNotification): Promise<DeliveryResult> {
-        if (!this.transporter) {
+        if (this.closing) {
+            return this.instrument(notification, async () => shuttingDown());
+        }
+
+        return this.sends.track(
+            this.instrument(notification, span => this.deliver(notification, account => account.transporter, span)),
+            result => result.success
+        );
+    }
+
+    /**
+     * Sends many notifications over shared connections and returns one
+     * result per notification, in input order.
+     *
+     * Every item is validated against the notification schema first; invalid
+     * items fail with INVALID_NOTIFICATION without affecting the others.
+     * Sends are paced by `getRateLimitConfig`. When pooling is disabled, the
+     * batch uses its own single-connection pool per account so messages share
+     * one session.
+     *
+     * @param notifications - Notifications to send
+     * @param options - Batch options
+     * @returns One DeliveryResult per notification
+     */
+    async sendBatch(notifications: GmailNotification[], options: BatchOptions = {}): Promise<DeliveryResult[]> {
+        const results: DeliveryResult[] = new Array(notifications.length);
+        const pool = { ...DEFAULT_POOL_OPTIONS, ...this.getPoolOptions() };
+        const maxWait = options.maxWait ?? DEFAULT_BATCH_MAX_WAIT;
+
+        // Batch-only transporters, created on first use of each account
+        const batchTransporters = new Map<SmtpAccount, Transporter>();
+        const transporterFor = (account: SmtpAccount) => {
+            if (pool.enabled || this.capture) {
+                return account.transporter;
+            }
+            let transporter = batchTransporters.get(account);
+            if (!transporter) {
+                transporter = this.createTransporter(account.transportOptions, account.authType, { ...pool, maxConnections: 1 });
+                batchTransporters.set(account, transporter);
+            }
+            return transporter;
+        };
+        this.rateLimiter ??= new TokenBucket(this.getRateLimitConfig());
+        const rateLimiter = this.rateLimiter;
+
+        const sendItem = async (item: GmailNotification): Promise<DeliveryResult> => {
+            const parsed = gmailNotificationSchema.safeParse(item);
+            if (!parsed.success) {
+                return this.instrument(item, async () => ({
+                    success: false,
+                    error: {
+                        code: 'INVALID_NOTIFICATION',
+                        message: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+                        retryable: false,
+                    },
+                }));
+            }
+            if (this.closing) {
+                return this.instrument(parsed.data, async () => shuttingDown());
+            }
+
+            const wait = await rateLimiter.take(maxWait);
+            if (wait > 0) {
+                return this.instrument(parsed.data, async () => ({
+                    success: false,
+                    error: {
+                        code: 'RATE_LIMITED',
+                        message: `Rate limit reached, next send allowed in ${Math.ceil(wait / 1000)}s`,
+                        retryable: true,
+                    },
+                    providerResponse: {
+                        retryAfter: wait,
+                        retryAt: new Date(Date.now() + wait).toISOString(),
+                    },
+                }));
+            }
+
+            const notification = parsed.data;
+            return this.sends.track(
+                this.instrument(notification, span => this.deliver(notification, transporterFor, span)),
+                result => result.success
+            );
+        };
+
+        // One worker per connection; each takes the next unsent item
+        let next = 0;
+        const worker = async () => {
+            while (next < notifications.length) {
+                const index = next++;
+                results[index] = await sendItem(notifications[index]);
+            }
+        };
+
+        try {
+            const connections = (pool.enabled ? pool.maxConnections : 1) * (this.accounts?.accounts.length || 1);
+            await Promise.all(Array.from({ length: Math.min(connections, notifications.length) }, worker));
+        } finally {
+            for (const transporter of batchTransporters.values()) {
+                transporter.close();
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Runs one send attempt in a `gmail.send` span, counts the outcome and
+     * calls the `afterSend`/`onError` hooks. Sends refused before delivery
+     * (shutting down, invalid, rate limited) go through here too.
+     *
+     * @param attempt - Produces the result, e.g. by calling `deliver`
+     */
+    private async instrument(
+        notification: GmailNotification,
+        attempt: (span: Span) => Promise<DeliveryResult>
+    ): Promise<DeliveryResult> {
+        // Invalid batch items may lack any field
+        const span = this.tracer.startSpan('gmail.send', {
+            attributes: {
+                ...(notification?.notification_id && { 'notification.id': notification.notification_id }),
+                ...(notification?.request_id && { 'request.id': notification.request_id }),
+            },
+        });
+
+        const result = await attempt(span);
+
+        if (result.success) {
+            span.setAttribute('messaging.message.id', result.messageId as string);
+            span.setStatus({ code: SPAN_STATUS_OK });
+            if (!this.capture) {
+                this.metrics.increment(METRICS.sent);
+            }
+        } else {
+            span.setAttribute('error.type', result.error!.code);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: result.error!.message });
+            this.metrics.increment(METRICS.failed, { code: result.error!.code });
+        }
+        span.end();
+
+        for (const failure of await this.middleware.afterDelivery(result, notification)) {
+            this.logger.warn('Middleware hook failed', { notification_id: notification?.notification_id, error: failure.message });
+        }
+
+        return result;
+    }
+
+    /**
+     * Builds and sends one message, failing over to the next account when an
+     * account is rejected for authentication, throttling or quota reasons.
+     */
+    private async deliver(
+        notification: GmailNotification,
+        transporterFor: (account: SmtpAccount) => Transporter,
+        span: Span
+    ): Promise<DeliveryResult> {
+        const accounts = this.accounts;
+        if (!accounts) {
             return {
                 success: false,
                 error: {
@@ -251,90 +871,352 @@ export class GmailProvider implements SimpleNSProvider<GmailNotification> {
             };
         }
 
+        const startedAt = Date.now();
+        const context: LogFields = {
+            notification_id: notification.notification_id,
+            request_id: notification.request_id,
+        };
+
         try {
-            let message = notification.content.message;
+            const { notification: prepared, mailOptions, htmlTransformations } = await this.buildMessage(notification);
+            const tried = new Set<SmtpAccount>();
+            let lastError: DeliveryError | undefined;
+
+            for (let account = accounts.select(); account; account = accounts.select(tried)) {
+                tried.add(account);
+                // Spans skip the logger's redaction, so mask the address here
+                span.setAttribute('gmail.account', redactEmails(account.user));
+                const attemptStartedAt = Date.now();
+                const logFields = () => ({ ...context, account: account.user, duration: Date.now() - startedAt });
+                try {
+                    if (this.capture) {
+                        // Captured messages are never sent, so they use no quota
+                        accounts.release(account);
+                        const captured = await this.capture.capture({ ...mailOptions, from: account.from });
+                        return this.toCaptureResult(captured, htmlTransformations, logFields());
+                    }
+                    const info = await transporterFor(account).sendMail({ ...mailOptions, from: account.from });
+                    this.metrics.observe(METRICS.sendDuration, (Date.now() - attemptStartedAt) / 1000, { outcome: 'success' });
+                    accounts.recordSend(account);
+                    return this.toDeliveryResult(prepared, info, htmlTransformations, logFields());
+                } catch (err) {
+                    if (!this.capture) {
+                        // Not accepted by the server: give back the reserved quota slot
+                        accounts.release(account);
+                        this.metrics.observe(METRICS.sendDuration, (Date.now() - attemptStartedAt) / 1000, { outcome: 'failure' });
+                    }
+                    const error = classifySmtpError(err);
+                    if (!FAILOVER_ERROR_CODES.has(error.code)) {
+                        throw error;
+                    }
 
-            // Replace template variables using our custom multi-pattern replacer
-            if (notification.variables) {
-                message = replaceTemplateVariables(message, notification.variables);
+                    // Take the account out of rotation and try the next one
+                    accounts.markUnavailable(account, Date.now() + (error.retryAfter ?? ACCOUNT_COOLDOWN), `${error.code} ${error.message}`);
+                    this.logger.warn('Account failed, trying next account', { ...context, account: account.user, errorCode: error.code });
+                    lastError = error;
+                }
             }
 
-            // Detect if message is HTML
-            const isHtml = isHtmlContent(message);
+            if (lastError) {
+                throw lastError;
+            }
 
-            let mailOptions: SendMailOptions;
+            const retryAfter = Math.max(accounts.nextAvailableAt() - Date.now(), 0);
+            if (accounts.accounts.every(account => accounts.isExhausted(account))) {
+                // Refuse before Gmail starts bouncing
+                throw new DeliveryError(
+                    'QUOTA_EXHAUSTED',
+                    'Daily sending quota used up for all accounts',
+                    this.getQuotaOptions().retryable === true,
+                    retryAfter
+                );
+            }
+            throw new DeliveryError(
+                'NO_ACCOUNT_AVAILABLE',
+                'No SMTP account is available, all are backing off or at their daily limit',
+                true,
+                retryAfter
+            );
+        } catch (err) {
+            const error = err instanceof DeliveryError ? err : classifySmtpError(err);
+            this.logger.error('Send failed', {
+                ...context,
+                errorCode: error.code,
+                error: error.message,
+                duration: Date.now() - startedAt,
+            });
 
-            if (isHtml) {
-                // Extract base64 images and convert to CID attachments
-                const { html, attachments } = extractBase64Images(message);
-                mailOptions = {
-                    from: this.fromEmail,
-                    to: notification.recipient.email,
-                    subject: notification.content.subject || 'Notification',
-                    html,
-                    attachments,
-                };
-            } else {
-                mailOptions = {
-                    from: this.fromEmail,
-                    to: notification.recipient.email,
-                    subject: notification.content.subject || 'Notification',
-                    text: message,
+            const result: DeliveryResult = {
+                success: false,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                    retryable: error.retryable,
+                },
+            };
+
+            // Throttled or out of quota: report when sending is possible again
+            if (error.retryAfter !== undefined) {
+                const retryAt = Date.now() + error.retryAfter;
+                result.providerResponse = {
+                    retryAfter: error.retryAfter,
+                    retryAt: new Date(retryAt).toISOString(),
                 };
             }
 
-            const info = await this.transporter.sendMail(mailOptions);
+            return result;
+        }
+    }
 
-            console.log(`[GmailProvider] Email sent: ${info.messageId} to ${notification.recipient.email}`);
+    /**
+     * Renders a notification into mail options (everything but `from`),
+     * running the middleware render hooks
+     *
+     * @returns The notification as rendered, after `beforeRender` hooks
+     */
+    private async buildMessage(original: GmailNotification): Promise<{
+        notification: GmailNotification;
+        mailOptions: SendMailOptions;
+        htmlTransformations: string[];
+    }> {
+        const notification = await this.middleware.beforeRender(original);
+        const templating = this.getTemplatingOptions();
+        const variables = notification.variables || {};
 
-            return {
-                success: true,
-                messageId: info.messageId,
-                providerResponse: info,
+        // Detect HTML on the template itself so injected values can be escaped
+        const body = render(notification.content.message, variables, {
+            ...templating,
+            escape: templating.engine === 'template' && isHtmlContent(notification.content.message) ? 'html' : 'none',
+        });
+        const message = body.output;
+
+        // Subjects are header values: strip line breaks instead of HTML-escaping
+        const subject = render(notification.content.subject || 'Notification', variables, {
+            ...templating,
+            escape: 'header',
+        });
+        // Caller-supplied plain-text alternative for HTML messages
+        const textOverride = notification.content.text !== undefined
+            ? render(notification.content.text, variables, templating)
+            : null;
+        const missing = [...new Set([...subject.missing, ...body.missing, ...(textOverride?.missing || [])])];
+
+        if (missing.length > 0 && templating.missingVariables === 'error') {
+            throw new DeliveryError('MISSING_VARIABLES', `Missing template variables: ${missing.join(', ')}`);
+        }
+        if (missing.length > 0 && templating.missingVariables === 'warn') {
+            this.logger.warn('Missing template variables', { notification_id: notification.notification_id, missing });
+        }
+
+        // Detect if message is HTML
+        const isHtml = isHtmlContent(message);
+
+        const { recipient, content } = notification;
+        const unsubscribe = this.getUnsubscribeOptions();
+        const headers = {
+            ...content.headers,
+            ...((unsubscribe.url || unsubscribe.mailto) && content.unsubscribe !== false && buildUnsubscribeHeaders(unsubscribe, {
+                user_id: recipient.user_id,
+                notification_id: notification.notification_id,
+            })),
+        };
+        const baseOptions: SendMailOptions = {
+            to: recipient.email,
+            ...(recipient.cc && { cc: recipient.cc }),
+            ...(recipient.bcc && { bcc: recipient.bcc }),
+            ...(content.reply_to && { replyTo: content.reply_to }),
+            subject: stripLineBreaks(subject.output),
+            ...(Object.keys(headers).length > 0 && { headers }),
+        };
+
+        const attachmentOptions = this.getAttachmentOptions();
+        const fileAttachments = content.attachments
+            ? await resolveAttachments(content.attachments, attachmentOptions)
+            : [];
+
+        let mailOptions: SendMailOptions;
+        let htmlTransformations: string[] = [];
+
+        if (isHtml) {
+            const htmlOptions = this.getHtmlOptions();
+
+            // Email-safe post-processing (sanitizing, URL rewriting, CSS inlining)
+            const processed = processHtml(message, htmlOptions);
+            htmlTransformations = processed.transformations;
+
+            // Extract base64 images and convert to CID attachments
+            const extracted = extractBase64Images(processed.html);
+            let html = extracted.html;
+            const attachments = extracted.attachments;
+
+            // Embed images from allow-listed hosts, leaving the URL of any that fail
+            if (this.remoteImageCache) {
+                const remote = await embedRemoteImages(html, this.getRemoteImageOptions(), this.remoteImageCache);
+                html = remote.html;
+                attachments.push(...remote.attachments);
+                if (remote.attachments.length > 0) {
+                    const count = remote.attachments.length;
+                    htmlTransformations.push(`embedded ${count} remote ${count === 1 ? 'image' : 'images'}`);
+                }
+                for (const failure of remote.failures) {
+                    this.logger.warn('Could not embed remote image', { notification_id: notification.notification_id, ...failure });
+                    htmlTransformations.push(`left remote image ${failure.url} unembedded: ${failure.reason}`);
+                }
+            }
+
+            const text = textOverride?.output
+                ?? (htmlOptions.textAlternative !== false ? htmlToText(html) : undefined);
+            mailOptions = {
+                ...baseOptions,
+                html,
+                ...(text !== undefined && { text }),
+                attachments: [...attachments, ...fileAttachments],
             };
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-
-            // Determine if retryable
-            // Common non-retryable errors: invalid address, auth failure
-            const nonRetryablePatterns = [
-                'Invalid login',
-                'Authentication',
-                'Invalid mail',
-                'No recipients',
-                'Invalid email',
-            ];
-
-            const retryable = !nonRetryablePatterns.some(p =>
-                errorMessage.toLowerCase().includes(p.toLowerCase())
-            );
+        } else {
+            mailOptions = {
+                ...baseOptions,
+                text: message,
+                ...(fileAttachments.length > 0 && { attachments: fileAttachments }),
+            };
+        }
+
+        await this.middleware.afterRender(mailOptions, notification);
+
+        if (this.dkimKeys) {
+            const dkim = dkimSigningOptions(this.dkimKeys, this.getDkimOptions().skipFields);
+            if (!dkim) {
+                // Unsigned mail would fail DMARC; better to fail visibly
+                throw new DeliveryError('DKIM_NO_ACTIVE_KEY', 'No DKIM key is active, refusing to send unsigned mail');
+            }
+            mailOptions.dkim = dkim;
+        }
+
+        assertMessageSize(mailOptions, attachmentOptions);
 
-            console.error(`[GmailProvider] Send failed:`, err);
+        return { notification, mailOptions, htmlTransformations };
+    }
+
+    /**
+     * Maps nodemailer's send info to a DeliveryResult, failing when every
+     * recipient was rejected
+     */
+    private toDeliveryResult(
+        notification: GmailNotification,
+        info: SMTPTransport.SentMessageInfo,
+        htmlTransformations: string[],
+        fields: LogFields
+    ): DeliveryResult {
+        const { recipient } = notification;
+        const recipients = getRecipientStatuses(recipient, info);
+        const rejected = recipients.filter(r => r.status === 'rejected');
+
+        if (rejected.length === recipients.length) {
+            this.logger.error('All recipients rejected', {
+                ...fields,
+                messageId: info.messageId,
+                errorCode: 'RECIPIENT_REJECTED',
+                rejected: rejected.map(r => r.address),
+            });
 
             return {
                 success: false,
                 error: {
-                    code: 'SEND_FAILED',
-                    message: errorMessage,
-                    retryable,
+                    code: 'RECIPIENT_REJECTED',
+                    message: `All recipients were rejected: ${rejected.map(r => r.address).join(', ')}`,
+                    retryable: false,
                 },
+                providerResponse: { ...info, recipients },
             };
         }
+
+        if (rejected.length > 0) {
+            this.logger.error('Some recipients rejected', { ...fields, messageId: info.messageId, rejected: rejected.map(r => r.address) });
+        }
+
+        this.logger.info('Email sent', { ...fields, messageId: info.messageId, to: toAddressList(recipient.email) });
+
+        return {
+            success: true,
+            messageId: info.messageId,
+            providerResponse: {
+                ...info,
+                recipients,
+                ...(htmlTransformations.length > 0 && { htmlTransformations }),
+            },
+        };
+    }
+
+    /**
+     * Result for a message captured instead of sent. Captured messages do
+     * not count towards the daily quota.
+     */
+    private toCaptureResult(captured: CapturedMessage, htmlTransformations: string[], fields: LogFields): DeliveryResult {
+        this.logger.info('Email captured', { ...fields, messageId: captured.messageId, ...(captured.path && { path: captured.path }) });
+
+        return {
+            success: true,
+            messageId: captured.messageId,
+            providerResponse: {
+                captured: true,
+                envelope: captured.envelope,
+                ...(captured.path && { path: captured.path }),
+                ...(htmlTransformations.length > 0 && { htmlTransformations }),
+            },
+        };
+    }
+
+    /**
+     * Messages captured in dry-run mode, oldest first
+     */
+    getCapturedMessages(): CapturedMessage[] {
+        return this.capture?.list() || [];
+    }
+
+    clearCapturedMessages(): void {
+        this.capture?.clear();
     }
 
     async shutdown(): Promise<void> {
-        if (this.transporter) {
-            this.transporter.close();
-            this.transporter = null;
-            console.log('[GmailProvider] Transporter closed');
+        if (this.accounts) {
+            // Stop accepting sends and let in-flight ones finish before closing connections
+            this.closing = true;
+            const pending = this.sends.inFlight;
+            if (pending > 0) {
+                this.logger.info(`Waiting for ${pending} in-flight message(s) to finish`);
+                const { drainTimeout } = { ...DEFAULT_POOL_OPTIONS, ...this.getPoolOptions() };
+                if (!await this.sends.drain(drainTimeout)) {
+                    this.logger.warn(`${this.sends.inFlight} message(s) still in flight after ${drainTimeout}ms, closing anyway`);
+                }
+            }
+
+            for (const account of this.accounts.accounts) {
+                account.transporter.close();
+            }
+            await this.quota?.flush();
+            this.accounts = null;
+            this.quota = null;
+            this.closing = false;
+            this.logger.info('Transporter closed');
         }
     }
 }
 
+// Types, stores and errors used by the provider's public methods and options
+export type { AccountHealth } from './accounts.js';
+export type { CapturedMessage } from './capture.js';
+export type { LogFields, LogLevel, Logger } from './logger.js';
+export { type MetricLabels, type Metrics, METRICS, PrometheusMetrics } from './metrics.js';
+export type { DeliveryFailure, Middleware } from './middleware.js';
+export type { Span, Tracer } from './tracing.js';
+export { ConfigurationError, DeliveryError } from './errors.js';
+export type { ProviderOptions } from './config.js';
+export type { PoolStats } from './pool.js';
+export { type QuotaStore, FileQuotaStore, MemoryQuotaStore } from './quota.js';
+
 // Export the provider class as default
 export default GmailProvider;
 
 // Also export a factory function for convenience
-export function createProvider(): GmailProvider {
-    return new GmailProvider();
+export function createProvider(options?: GmailProviderOptions): GmailProvider {
+    return new GmailProvider(options);
 }
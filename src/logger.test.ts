@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLogger, redactEmails, redactFields } from './logger.js';
+
+const mockLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+describe('redactEmails', () => {
+    it('should mask the local part of every address', () => {
+        expect(redactEmails('jane.doe@example.com, Team <team@mail.example.co.uk>'))
+            .toBe('j***@example.com, Team <t***@mail.example.co.uk>');
+    });
+
+    it('should leave text without addresses unchanged', () => {
+        expect(redactEmails('Transporter closed')).toBe('Transporter closed');
+    });
+});
+
+describe('redactFields', () => {
+    it('should redact nested values, drop template variables and keep Message-IDs', () => {
+        expect(redactFields({
+            to: ['jane@example.com'],
+            account: 'sender@gmail.com',
+            variables: { name: 'Jane' },
+            error: new Error('Rejected bob@example.com'),
+            details: { from: 'alice@example.com', attempts: 2 },
+            messageId: '<abc@gmail.com>',
+            duration: 12,
+        })).toEqual({
+            to: ['j***@example.com'],
+            account: 's***@gmail.com',
+            variables: '[redacted]',
+            error: 'Rejected b***@example.com',
+            details: { from: 'a***@example.com', attempts: 2 },
+            messageId: '<abc@gmail.com>',
+            duration: 12,
+        });
+    });
+});
+
+describe('createLogger', () => {
+    it('should log at info and above by default', () => {
+        const target = mockLogger();
+        const logger = createLogger(target);
+
+        logger.debug('debug');
+        logger.info('info');
+        logger.error('error', { errorCode: 'AUTH_FAILED' });
+
+        expect(target.debug).not.toHaveBeenCalled();
+        expect(target.info).toHaveBeenCalledWith('info', undefined);
+        expect(target.error).toHaveBeenCalledWith('error', { errorCode: 'AUTH_FAILED' });
+    });
+
+    it('should honor the configured level', () => {
+        const target = mockLogger();
+        const logger = createLogger(target, { level: 'debug' });
+
+        logger.debug('debug');
+
+        expect(target.debug).toHaveBeenCalledWith('debug', undefined);
+    });
+
+    it('should redact messages and fields unless disabled', () => {
+        const target = mockLogger();
+        const unredacted = mockLogger();
+
+        createLogger(target).info('Sent to jane@example.com', { to: 'jane@example.com' });
+        createLogger(unredacted, { redact: false }).info('Sent to jane@example.com', { to: 'jane@example.com' });
+
+        expect(target.info).toHaveBeenCalledWith('Sent to j***@example.com', { to: 'j***@example.com' });
+        expect(unredacted.info).toHaveBeenCalledWith('Sent to jane@example.com', { to: 'jane@example.com' });
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Logging for the provider: a minimal leveled logger interface that can be
+ * backed by any logging library, structured fields, and redaction of
+ * personal data (email addresses and template variables) before anything
+ * reaches the log pipeline.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context of a log event, e.g. `notification_id`, `messageId`, `errorCode`
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger accepted by the provider. Compatible with most logging libraries
+ * (pino, winston, bunyan) through a thin adapter.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Logging options, configured under `options.logging`
+ */
+export interface LoggingOptions {
+    /** Lowest level that is logged (default: info) */
+    level?: LogLevel;
+    /** Mask email addresses and drop template variables (default: true) */
+    redact?: boolean;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Writes to the console, prefixed with the provider name
+ */
+export const consoleLogger: Logger = {
+    debug: (message, fields) => console.debug(`[GmailProvider] ${message}`, ...(fields ? [fields] : [])),
+    info: (message, fields) => console.log(`[GmailProvider] ${message}`, ...(fields ? [fields] : [])),
+    warn: (message, fields) => console.warn(`[GmailProvider] ${message}`, ...(fields ? [fields] : [])),
+    error: (message, fields) => console.error(`[GmailProvider] ${message}`, ...(fields ? [fields] : [])),
+};
+
+/**
+ * Fields whose whole value is personal data
+ */
+const REDACTED_FIELDS = new Set(['variables']);
+
+/**
+ * Fields kept as is: Message-IDs look like email addresses but are needed to
+ * correlate log events with the mail servers' logs
+ */
+const PRESERVED_FIELDS = new Set(['messageId']);
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/**
+ * Masks the local part of every email address, keeping its first character
+ * and the domain (`jane.doe@example.com` -> `j***@example.com`)
+ */
+export function redactEmails(text: string): string {
+    return text.replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+function redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return redactEmails(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactValue);
+    }
+    if (value instanceof Error) {
+        return redactEmails(value.message);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return redactFields(value as LogFields);
+    }
+    return value;
+}
+
+/**
+ * Redacts personal data from log fields
+ */
+export function redactFields(fields: LogFields): LogFields {
+    return Object.fromEntries(Object.entries(fields).map(([key, value]) =>
+        [key, REDACTED_FIELDS.has(key) ? '[redacted]' : PRESERVED_FIELDS.has(key) ? value : redactValue(value)]
+    ));
+}
+
+/**
+ * Wraps a logger with level filtering and, unless disabled, redaction
+ *
+ * @param target - Logger events are written to
+ * @param options - Minimum level and redaction
+ */
+export function createLogger(target: Logger, options: LoggingOptions = {}): Logger {
+    const minimum = LOG_LEVELS.indexOf(options.level || 'info');
+    const redact = options.redact !== false;
+
+    const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+        if (LOG_LEVELS.indexOf(level) < minimum) {
+            return;
+        }
+        if (!redact) {
+            target[level](message, fields);
+            return;
+        }
+        target[level](redactEmails(message), fields && redactFields(fields));
+    };
+
+    return {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: log('error'),
+    };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { METRICS, PrometheusMetrics } from './metrics.js';
+
+describe('PrometheusMetrics', () => {
+    it('should render counters and gauges with help and type lines', () => {
+        const metrics = new PrometheusMetrics();
+
+        metrics.increment(METRICS.sent);
+        metrics.increment(METRICS.sent);
+        metrics.increment(METRICS.failed, { code: 'AUTH_FAILED' });
+        metrics.increment(METRICS.failed, { code: 'THROTTLED' }, 3);
+        metrics.gauge(METRICS.healthy, 1);
+        metrics.gauge(METRICS.healthy, 0);
+
+        expect(metrics.metrics()).toBe([
+            '# HELP gmail_messages_sent_total Messages accepted by the SMTP server',
+            '# TYPE gmail_messages_sent_total counter',
+            'gmail_messages_sent_total 2',
+            '# HELP gmail_messages_failed_total Messages that could not be delivered, by error code',
+            '# TYPE gmail_messages_failed_total counter',
+            'gmail_messages_failed_total{code="AUTH_FAILED"} 1',
+            'gmail_messages_failed_total{code="THROTTLED"} 3',
+            '# HELP gmail_healthy Whether the last health check found an account able to send',
+            '# TYPE gmail_healthy gauge',
+            'gmail_healthy 0',
+            '',
+        ].join('\n'));
+    });
+
+    it('should render histograms with cumulative buckets, sum and count', () => {
+        const metrics = new PrometheusMetrics([0.1, 1]);
+
+        metrics.observe('latency_seconds', 0.05, { outcome: 'success' });
+        metrics.observe('latency_seconds', 0.5, { outcome: 'success' });
+        metrics.observe('latency_seconds', 2, { outcome: 'success' });
+
+        expect(metrics.metrics()).toBe([
+            '# TYPE latency_seconds histogram',
+            'latency_seconds_bucket{outcome="success",le="0.1"} 1',
+            'latency_seconds_bucket{outcome="success",le="1"} 2',
+            'latency_seconds_bucket{outcome="success",le="+Inf"} 3',
+            'latency_seconds_sum{outcome="success"} 2.55',
+            'latency_seconds_count{outcome="success"} 3',
+            '',
+        ].join('\n'));
+    });
+
+    it('should treat label sets in any order as the same series', () => {
+        const metrics = new PrometheusMetrics();
+
+        metrics.increment('requests_total', { a: '1', b: '2' });
+        metrics.increment('requests_total', { b: '2', a: '1' });
+
+        expect(metrics.metrics()).toContain('requests_total{a="1",b="2"} 2');
+    });
+
+    it('should escape label values', () => {
+        const metrics = new PrometheusMetrics();
+
+        metrics.increment('errors_total', { message: 'say "hi"\\\n' });
+
+        expect(metrics.metrics()).toContain('errors_total{message="say \\"hi\\"\\\\\\n"} 1');
+    });
+
+    it('should reject a name used with another metric type', () => {
+        const metrics = new PrometheusMetrics();
+        metrics.increment('requests_total');
+
+        expect(() => metrics.gauge('requests_total', 1)).toThrow('Metric requests_total is a counter, not a gauge');
+    });
+
+    it('should render nothing after reset', () => {
+        const metrics = new PrometheusMetrics();
+        metrics.increment(METRICS.sent);
+
+        metrics.reset();
+
+        expect(metrics.metrics()).toBe('');
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Delivery metrics: a minimal counter/histogram/gauge interface the host can
+ * back with its metrics library, a no-op default, and an in-process
+ * Prometheus registry that renders the text exposition format.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Metrics sink accepted by the provider
+ */
+export interface Metrics {
+    /** Adds `value` (default: 1) to a counter */
+    increment(name: string, labels?: MetricLabels, value?: number): void;
+    /** Records a sample in a histogram */
+    observe(name: string, value: number, labels?: MetricLabels): void;
+    /** Sets a gauge */
+    gauge(name: string, value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * Metrics recorded by the provider
+ */
+export const METRICS = {
+    /** Messages accepted by the SMTP server (counter) */
+    sent: 'gmail_messages_sent_total',
+    /** Messages that failed, labeled by error `code` (counter) */
+    failed: 'gmail_messages_failed_total',
+    /** Duration of each `sendMail` attempt, labeled by `outcome` (histogram) */
+    sendDuration: 'gmail_send_duration_seconds',
+    /** Result of the last health check, 1 or 0 (gauge) */
+    healthy: 'gmail_healthy',
+} as const;
+
+const HELP: Record<string, string> = {
+    [METRICS.sent]: 'Messages accepted by the SMTP server',
+    [METRICS.failed]: 'Messages that could not be delivered, by error code',
+    [METRICS.sendDuration]: 'Duration of SMTP sendMail attempts in seconds',
+    [METRICS.healthy]: 'Whether the last health check found an account able to send',
+};
+
+export const noopMetrics: Metrics = {
+    increment: () => { },
+    observe: () => { },
+    gauge: () => { },
+};
+
+/**
+ * Wraps a host-supplied sink so a throwing sink is reported through
+ * `onError` instead of failing the send it instruments
+ */
+export function guardMetrics(metrics: Metrics, onError: (err: unknown) => void): Metrics {
+    const guard = <A extends unknown[]>(record: (...args: A) => void) => (...args: A) => {
+        try {
+            record(...args);
+        } catch (err) {
+            onError(err);
+        }
+    };
+    return {
+        increment: guard(metrics.increment.bind(metrics)),
+        observe: guard(metrics.observe.bind(metrics)),
+        gauge: guard(metrics.gauge.bind(metrics)),
+    };
+}
+
+/**
+ * Histogram buckets in seconds, suited to SMTP round trips
+ */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricType = 'counter' | 'histogram' | 'gauge';
+
+interface Series {
+    labels: MetricLabels;
+    value: number;
+    /** Histogram only: samples at or below each bucket bound; `value` counts all samples */
+    buckets?: number[];
+    sum?: number;
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels, extra: MetricLabels = {}): string {
+    const entries = Object.entries({ ...labels, ...extra });
+    return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}` : '';
+}
+
+/**
+ * Keeps metrics in memory and renders them in the Prometheus text format,
+ * for hosts that expose a `/metrics` endpoint
+ */
+export class PrometheusMetrics implements Metrics {
+    /** Content type of `metrics()` for the HTTP response */
+    readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+    private readonly registry = new Map<string, { type: MetricType; series: Map<string, Series> }>();
+
+    constructor(private readonly buckets = DEFAULT_BUCKETS) { }
+
+    increment(name: string, labels: MetricLabels = {}, value = 1): void {
+        this.series(name, 'counter', labels).value += value;
+    }
+
+    observe(name: string, value: number, labels: MetricLabels = {}): void {
+        const series = this.series(name, 'histogram', labels);
+        series.buckets ??= this.buckets.map(() => 0);
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                series.buckets![index]++;
+            }
+        });
+        series.sum = (series.sum || 0) + value;
+        series.value++;
+    }
+
+    gauge(name: string, value: number, labels: MetricLabels = {}): void {
+        this.series(name, 'gauge', labels).value = value;
+    }
+
+    /**
+     * All metrics in the Prometheus text exposition format
+     */
+    metrics(): string {
+        const lines: string[] = [];
+        for (const [name, { type, series }] of this.registry) {
+            if (HELP[name]) {
+                lines.push(`# HELP ${name} ${HELP[name]}`);
+            }
+            lines.push(`# TYPE ${name} ${type}`);
+
+            for (const { labels, value, buckets, sum } of series.values()) {
+                if (type !== 'histogram') {
+                    lines.push(`${name}${formatLabels(labels)} ${value}`);
+                    continue;
+                }
+                this.buckets.forEach((bound, index) => {
+                    lines.push(`${name}_bucket${formatLabels(labels, { le: String(bound) })} ${buckets![index]}`);
+                });
+                lines.push(`${name}_bucket${formatLabels(labels, { le: '+Inf' })} ${value}`);
+                lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+                lines.push(`${name}_count${formatLabels(labels)} ${value}`);
+            }
+        }
+        return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    }
+
+    /**
+     * Forgets every recorded value
+     */
+    reset(): void {
+        this.registry.clear();
+    }
+
+    private series(name: string, type: MetricType, labels: MetricLabels): Series {
+        let metric = this.registry.get(name);
+        if (!metric) {
+            metric = { type, series: new Map() };
+            this.registry.set(name, metric);
+        } else if (metric.type !== type) {
+            throw new Error(`Metric ${name} is a ${metric.type}, not a ${type}`);
+        }
+
+        const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+        let series = metric.series.get(key);
+        if (!series) {
+            series = { labels, value: 0 };
+            metric.series.set(key, series);
+        }
+        return series;
+    }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DeliveryError } from './errors.js';
+import type { GmailNotification } from './index.js';
+import { MiddlewareChain } from './middleware.js';
+
+const notification = {
+    notification_id: 'notif-1',
+    channel: 'email',
+    recipient: { user_id: 'user-1', email: 'recipient@example.com' },
+    content: { subject: 'Hi', message: 'Hello' },
+} as GmailNotification;
+
+describe('MiddlewareChain', () => {
+    it('should pass the notification through beforeRender hooks in order', async () => {
+        const chain = new MiddlewareChain([
+            { beforeRender: n => ({ ...n, content: { ...n.content, message: `${n.content.message} A` } }) },
+            { beforeRender: () => undefined },
+            { beforeRender: async n => ({ ...n, content: { ...n.content, message: `${n.content.message} B` } }) },
+        ]);
+
+        const result = await chain.beforeRender(notification);
+
+        expect(result.content.message).toBe('Hello A B');
+        expect(notification.content.message).toBe('Hello');
+    });
+
+    it('should let afterRender hooks mutate the mail options', async () => {
+        const chain = new MiddlewareChain([
+            { afterRender: options => { options.headers = { 'X-Tenant': 'acme' }; } },
+            { afterRender: async options => { options.html = `${options.html}<img src="https://t.example.com/p.gif">`; } },
+        ]);
+        const options = { html: '<p>Hi</p>' };
+
+        await chain.afterRender(options, notification);
+
+        expect(options).toEqual({ html: '<p>Hi</p><img src="https://t.example.com/p.gif">', headers: { 'X-Tenant': 'acme' } });
+    });
+
+    it('should fail rendering with MIDDLEWARE_FAILED when a render hook throws', async () => {
+        const chain = new MiddlewareChain([{}, {
+            beforeRender: () => {
+                throw new Error('unknown tenant');
+            },
+        }]);
+
+        const error = await chain.beforeRender(notification).catch(err => err);
+
+        expect(error).toBeInstanceOf(DeliveryError);
+        expect(error).toMatchObject({ code: 'MIDDLEWARE_FAILED', message: 'middleware[1].beforeRender failed: unknown tenant', retryable: false });
+    });
+
+    it('should run afterSend or onError depending on the result', async () => {
+        const middleware = { afterSend: vi.fn(), onError: vi.fn() };
+        const chain = new MiddlewareChain([middleware]);
+        const error = { code: 'AUTH_FAILED', message: 'Invalid login', retryable: false };
+
+        await chain.afterDelivery({ success: true, messageId: '<msg@gmail.com>' }, notification);
+        await chain.afterDelivery({ success: false, error }, notification);
+
+        expect(middleware.afterSend).toHaveBeenCalledWith({ success: true, messageId: '<msg@gmail.com>' }, notification);
+        expect(middleware.onError).toHaveBeenCalledWith(error, notification);
+        expect(middleware.afterSend).toHaveBeenCalledTimes(1);
+        expect(middleware.onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run every observer hook and collect failures', async () => {
+        const afterSend = vi.fn();
+        const chain = new MiddlewareChain([
+            {
+                afterSend: async () => {
+                    throw new Error('webhook down');
+                },
+            },
+            { afterSend },
+        ]);
+
+        const failures = await chain.afterDelivery({ success: true }, notification);
+
+        expect(afterSend).toHaveBeenCalled();
+        expect(failures.map(failure => failure.message)).toEqual(['middleware[0].afterSend failed: webhook down']);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Middleware around sending, so customizations (tracking pixels, link
+ * rewriting, per-tenant headers) live in host code instead of patches to
+ * the provider.
+ *
+ * Hooks run in registration order and may be async. `beforeRender` and
+ * `afterRender` shape the message, and a failure there fails the send with
+ * MIDDLEWARE_FAILED. `afterSend` and `onError` only observe the outcome;
+ * their failures are reported to the caller to log.
+ */
+
+import type { SendMailOptions } from 'nodemailer';
+import type { DeliveryResult } from '@simplens/sdk';
+import { DeliveryError } from './errors.js';
+import type { GmailNotification } from './index.js';
+
+/**
+ * Error of a failed send, as reported in its DeliveryResult
+ */
+export type DeliveryFailure = NonNullable<DeliveryResult['error']>;
+
+export interface Middleware {
+    /** Before templates are rendered; may return a replacement notification */
+    beforeRender?(notification: GmailNotification): GmailNotification | void | Promise<GmailNotification | void>;
+    /** After rendering, with the mail options to mutate in place (`from` is set per account when sending) */
+    afterRender?(mailOptions: SendMailOptions, notification: GmailNotification): void | Promise<void>;
+    /** After a message was sent (or captured in dry-run mode) */
+    afterSend?(result: DeliveryResult, notification: GmailNotification): void | Promise<void>;
+    /** After a send failed */
+    onError?(error: DeliveryFailure, notification: GmailNotification): void | Promise<void>;
+}
+
+type Hook = keyof Middleware;
+
+function hookFailure(hook: Hook, index: number, err: unknown): Error {
+    return new Error(`middleware[${index}].${hook} failed: ${err instanceof Error ? err.message : err}`);
+}
+
+/**
+ * Runs the hooks of every registered middleware
+ */
+export class MiddlewareChain {
+    constructor(private readonly middleware: Middleware[] = []) { }
+
+    /**
+     * @returns The notification to render, as replaced by the hooks
+     * @throws DeliveryError MIDDLEWARE_FAILED when a hook throws
+     */
+    async beforeRender(notification: GmailNotification): Promise<GmailNotification> {
+        let current = notification;
+        for (const [index, middleware] of this.middleware.entries()) {
+            try {
+                current = await middleware.beforeRender?.(current) || current;
+            } catch (err) {
+                throw new DeliveryError('MIDDLEWARE_FAILED', hookFailure('beforeRender', index, err).message);
+            }
+        }
+        return current;
+    }
+
+    /**
+     * @throws DeliveryError MIDDLEWARE_FAILED when a hook throws
+     */
+    async afterRender(mailOptions: SendMailOptions, notification: GmailNotification): Promise<void> {
+        for (const [index, middleware] of this.middleware.entries()) {
+            try {
+                await middleware.afterRender?.(mailOptions, notification);
+            } catch (err) {
+                throw new DeliveryError('MIDDLEWARE_FAILED', hookFailure('afterRender', index, err).message);
+            }
+        }
+    }
+
+    /**
+     * Runs `afterSend` or `onError` depending on the result. Every hook runs
+     * even when an earlier one throws.
+     *
+     * @returns Failures of hooks that threw
+     */
+    async afterDelivery(result: DeliveryResult, notification: GmailNotification): Promise<Error[]> {
+        const failures: Error[] = [];
+        for (const [index, middleware] of this.middleware.entries()) {
+            try {
+                if (result.success) {
+                    await middleware.afterSend?.(result, notification);
+                } else {
+                    await middleware.onError?.(result.error!, notification);
+                }
+            } catch (err) {
+                failures.push(hookFailure(result.success ? 'afterSend' : 'onError', index, err));
+            }
+        }
+        return failures;
+    }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { SendTracker } from './pool.js';
+
+function deferred<T>() {
+    let resolve: (value: T) => void = () => { };
+    const promise = new Promise<T>(r => {
+        resolve = r;
+    });
+    return { promise, resolve };
+}
+
+describe('SendTracker', () => {
+    it('should count in-flight, sent and failed sends', async () => {
+        const tracker = new SendTracker();
+        const first = deferred<boolean>();
+        const second = deferred<boolean>();
+
+        const tracked = [
+            tracker.track(first.promise, ok => ok),
+            tracker.track(second.promise, ok => ok),
+        ];
+        expect(tracker.inFlight).toBe(2);
+
+        first.resolve(true);
+        second.resolve(false);
+        await Promise.all(tracked);
+
+        expect(tracker.stats(null)).toMatchObject({ inFlight: 0, sent: 1, failed: 1 });
+    });
+
+    it('should report queued sends beyond the connection limit', () => {
+        const tracker = new SendTracker();
+        for (let i = 0; i < 3; i++) {
+            void tracker.track(new Promise<boolean>(() => { }), ok => ok);
+        }
+
+        expect(tracker.stats(2)).toEqual({
+            pooled: true,
+            maxConnections: 2,
+            inFlight: 3,
+            activeConnections: 2,
+            queued: 1,
+            utilization: 1,
+            sent: 0,
+            failed: 0,
+        });
+        expect(tracker.stats(null)).toMatchObject({ pooled: false, activeConnections: 3, queued: 0, utilization: null });
+    });
+
+    it('should drain once all sends settle', async () => {
+        const tracker = new SendTracker();
+        const send = deferred<boolean>();
+        void tracker.track(send.promise, ok => ok);
+
+        const draining = tracker.drain(1000);
+        send.resolve(true);
+
+        expect(await draining).toBe(true);
+    });
+
+    it('should stop waiting after the drain timeout', async () => {
+        const tracker = new SendTracker();
+        void tracker.track(new Promise<boolean>(() => { }), ok => ok);
+
+        expect(await tracker.drain(10)).toBe(false);
+        expect(tracker.inFlight).toBe(1);
+    });
+});
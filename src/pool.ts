@@ -0,0 +1,121 @@
+/**
+ * Connection pooling options and tracking of in-flight sends.
+ */
+
+/**
+ * Connection pool options, configured under `options.pool`
+ */
+export interface PoolOptions {
+    /** Reuse SMTP connections across sends (default: false) */
+    enabled?: boolean;
+    /** Maximum simultaneous SMTP connections (default: 5) */
+    maxConnections?: number;
+    /** Messages sent over one connection before it is recycled (default: 100) */
+    maxMessages?: number;
+    /** Inactivity in milliseconds after which an idle connection is closed (default: 30000) */
+    idleTimeout?: number;
+    /** How long `shutdown` waits for in-flight sends, in milliseconds (default: 30000) */
+    drainTimeout?: number;
+}
+
+export const DEFAULT_POOL_OPTIONS = {
+    maxConnections: 5,
+    maxMessages: 100,
+    idleTimeout: 30000,
+    drainTimeout: 30000,
+};
+
+/**
+ * Send activity and connection utilization
+ */
+export interface PoolStats {
+    pooled: boolean;
+    /** Connection limit, or null when each send opens its own connection */
+    maxConnections: number | null;
+    /** Sends currently in progress */
+    inFlight: number;
+    /** Connections busy sending (in-flight sends, capped at maxConnections) */
+    activeConnections: number;
+    /** Sends waiting for a free connection */
+    queued: number;
+    /** Busy share of the pooled connections, from 0 to 1 (null when not pooled) */
+    utilization: number | null;
+    sent: number;
+    failed: number;
+}
+
+/**
+ * Tracks sends in progress so they can be counted and drained on shutdown
+ */
+export class SendTracker {
+    private readonly pending = new Set<Promise<unknown>>();
+    private sent = 0;
+    private failed = 0;
+
+    /**
+     * Tracks a send until it settles. `succeeded` decides whether the
+     * result counts as sent or failed.
+     */
+    async track<T>(send: Promise<T>, succeeded: (result: T) => boolean): Promise<T> {
+        this.pending.add(send);
+        try {
+            const result = await send;
+            if (succeeded(result)) {
+                this.sent++;
+            } else {
+                this.failed++;
+            }
+            return result;
+        } catch (err) {
+            this.failed++;
+            throw err;
+        } finally {
+            this.pending.delete(send);
+        }
+    }
+
+    get inFlight(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Waits for every in-flight send to settle, up to `timeoutMs`
+     *
+     * @returns true if all sends settled in time
+     */
+    async drain(timeoutMs: number): Promise<boolean> {
+        if (this.pending.size === 0) {
+            return true;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<false>(resolve => {
+            timer = setTimeout(() => resolve(false), timeoutMs);
+        });
+
+        try {
+            return await Promise.race([
+                Promise.allSettled([...this.pending]).then(() => true),
+                timeout,
+            ]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    stats(maxConnections: number | null): PoolStats {
+        const inFlight = this.pending.size;
+        const activeConnections = maxConnections === null ? inFlight : Math.min(inFlight, maxConnections);
+
+        return {
+            pooled: maxConnections !== null,
+            maxConnections,
+            inFlight,
+            activeConnections,
+            queued: inFlight - activeConnections,
+            utilization: maxConnections === null ? null : activeConnections / maxConnections,
+            sent: this.sent,
+            failed: this.failed,
+        };
+    }
+}
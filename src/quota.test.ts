@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FileQuotaStore, MemoryQuotaStore, QUOTA_WINDOW, QuotaTracker } from './quota.js';
+
+describe('FileQuotaStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'quota-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should start empty when the file does not exist', async () => {
+        expect(await new FileQuotaStore(path.join(dir, 'missing.json')).get('a@gmail.com')).toEqual([]);
+    });
+
+    it('should persist timestamps across instances', async () => {
+        const filePath = path.join(dir, 'nested', 'quota.json');
+        await new FileQuotaStore(filePath).set('a@gmail.com', [1, 2]);
+        await new FileQuotaStore(filePath).set('b@gmail.com', [3]);
+
+        expect(await new FileQuotaStore(filePath).get('a@gmail.com')).toEqual([1, 2]);
+        expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ 'a@gmail.com': [1, 2], 'b@gmail.com': [3] });
+    });
+});
+
+describe('QuotaTracker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-03-05T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should count sends within the rolling window only', async () => {
+        const store = new MemoryQuotaStore();
+        await store.set('a', [Date.now() - QUOTA_WINDOW - 1, Date.now() - 1000]);
+        const tracker = new QuotaTracker(store);
+        await tracker.load(['a']);
+
+        expect(tracker.used('a')).toBe(1);
+        tracker.record('a');
+        expect(tracker.used('a')).toBe(2);
+
+        // The send loaded from the store leaves the window first
+        vi.advanceTimersByTime(QUOTA_WINDOW - 500);
+        expect(tracker.used('a')).toBe(1);
+    });
+
+    it('should report when the account drops below its limit', () => {
+        const tracker = new QuotaTracker(new MemoryQuotaStore());
+        tracker.record('a');
+        vi.advanceTimersByTime(60 * 60 * 1000);
+        tracker.record('a');
+
+        expect(tracker.availableAt('a', 3)).toBe(Date.now());
+        expect(new Date(tracker.availableAt('a', 2)).toISOString()).toBe('2024-03-06T12:00:00.000Z');
+        expect(new Date(tracker.availableAt('a', 1)).toISOString()).toBe('2024-03-06T13:00:00.000Z');
+    });
+
+    it('should persist recorded sends to the store', async () => {
+        const store = new MemoryQuotaStore();
+        const tracker = new QuotaTracker(store);
+
+        tracker.record('a');
+        await tracker.flush();
+
+        expect(await store.get('a')).toEqual([Date.now()]);
+    });
+
+    it('should persist released sends', async () => {
+        const store = new MemoryQuotaStore();
+        const tracker = new QuotaTracker(store);
+
+        tracker.record('a');
+        tracker.record('a');
+        tracker.release('a');
+        await tracker.flush();
+
+        expect(tracker.used('a')).toBe(1);
+        expect(await store.get('a')).toEqual([Date.now()]);
+    });
+
+    it('should keep counting when the store fails', async () => {
+        const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const tracker = new QuotaTracker({
+            get: async () => [],
+            set: async () => {
+                throw new Error('disk full');
+            },
+        }, QUOTA_WINDOW, logger);
+
+        tracker.record('a');
+        await tracker.flush();
+
+        expect(tracker.used('a')).toBe(1);
+        expect(logger.warn).toHaveBeenCalledWith('Could not persist quota usage', { account: 'a', error: 'disk full' });
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Provider-side tracking of sends in Gmail's rolling 24 hour quota window,
+ * persisted through a pluggable store so counts survive restarts.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { type Logger, consoleLogger } from './logger.js';
+
+/**
+ * Length of Gmail's sending quota window
+ */
+export const QUOTA_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Quota tracking options, configured under `options.quota`
+ */
+export interface QuotaOptions {
+    /** File the send log is persisted to; in-memory only when omitted */
+    path?: string;
+    /** Report QUOTA_EXHAUSTED as retryable, with the retry delay as a hint (default: false) */
+    retryable?: boolean;
+}
+
+/**
+ * Persistence for send timestamps, keyed by account
+ */
+export interface QuotaStore {
+    /** Send timestamps (epoch ms) recorded for an account */
+    get(account: string): Promise<number[]>;
+    /** Replaces the send timestamps recorded for an account */
+    set(account: string, timestamps: number[]): Promise<void>;
+}
+
+/**
+ * Keeps send timestamps in memory; counts are lost on restart
+ */
+export class MemoryQuotaStore implements QuotaStore {
+    private readonly sends = new Map<string, number[]>();
+
+    async get(account: string): Promise<number[]> {
+        return [...(this.sends.get(account) || [])];
+    }
+
+    async set(account: string, timestamps: number[]): Promise<void> {
+        this.sends.set(account, [...timestamps]);
+    }
+}
+
+/**
+ * Keeps send timestamps in a JSON file (`{ "account": [timestamps] }`).
+ * Writes go to a temporary file that is renamed over the original, so a
+ * crash never leaves a truncated file behind.
+ */
+export class FileQuotaStore implements QuotaStore {
+    private data: Record<string, number[]> | null = null;
+
+    constructor(private readonly filePath: string) { }
+
+    private async read(): Promise<Record<string, number[]>> {
+        if (!this.data) {
+            try {
+                this.data = JSON.parse(await readFile(this.filePath, 'utf8')) as Record<string, number[]>;
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw err;
+                }
+                this.data = {};
+            }
+        }
+        return this.data;
+    }
+
+    async get(account: string): Promise<number[]> {
+        return [...((await this.read())[account] || [])];
+    }
+
+    async set(account: string, timestamps: number[]): Promise<void> {
+        const data = await this.read();
+        data[account] = [...timestamps];
+
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(data));
+        await rename(tempPath, this.filePath);
+    }
+}
+
+/**
+ * Counts sends per account within the quota window. Timestamps are loaded
+ * from the store once and kept in memory, so lookups are synchronous;
+ * every recorded send is written back in the background.
+ */
+export class QuotaTracker {
+    private readonly sends = new Map<string, number[]>();
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly store: QuotaStore,
+        private readonly windowMs = QUOTA_WINDOW,
+        private readonly logger: Logger = consoleLogger
+    ) { }
+
+    /**
+     * Loads the recorded sends of the given accounts from the store
+     */
+    async load(accounts: string[]): Promise<void> {
+        for (const account of accounts) {
+            this.sends.set(account, (await this.store.get(account)).sort((a, b) => a - b));
+        }
+    }
+
+    /**
+     * Sends in the current window, dropping older ones
+     */
+    private current(account: string): number[] {
+        const since = Date.now() - this.windowMs;
+        const sends = (this.sends.get(account) || []).filter(time => time > since);
+        this.sends.set(account, sends);
+        return sends;
+    }
+
+    /**
+     * Number of sends in the current window
+     */
+    used(account: string): number {
+        return this.current(account).length;
+    }
+
+    /**
+     * Earliest time (epoch ms) the account is below `limit` again
+     */
+    availableAt(account: string, limit: number): number {
+        const sends = this.current(account);
+        if (sends.length < limit) {
+            return Date.now();
+        }
+        // Enough of the oldest sends have to leave the window to free one slot
+        return sends[sends.length - limit] + this.windowMs;
+    }
+
+    /**
+     * Records a send now and persists it in the background
+     */
+    record(account: string): void {
+        this.current(account).push(Date.now());
+        this.persist(account);
+    }
+
+    /**
+     * Removes the most recently recorded send, e.g. one reserved for a
+     * message the server never accepted
+     */
+    release(account: string): void {
+        const sends = this.current(account);
+        if (sends.length === 0) {
+            return;
+        }
+        sends.pop();
+        this.persist(account);
+    }
+
+    private persist(account: string): void {
+        const snapshot = [...this.current(account)];
+        this.writes = this.writes
+            .then(() => this.store.set(account, snapshot))
+            .catch(err => {
+                this.logger.warn('Could not persist quota usage', { account, error: err instanceof Error ? err.message : String(err) });
+            });
+    }
+
+    /**
+     * Resolves once every recorded send has been persisted
+     */
+    flush(): Promise<void> {
+        return this.writes;
+    }
+}
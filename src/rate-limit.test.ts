@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TokenBucket } from './rate-limit.js';
+
+describe('TokenBucket', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should allow bursts up to maxTokens', async () => {
+        vi.useFakeTimers();
+        const bucket = new TokenBucket({ maxTokens: 3, refillRate: 1, refillInterval: 'minute' });
+
+        expect(await bucket.take(0)).toBe(0);
+        expect(await bucket.take(0)).toBe(0);
+        expect(await bucket.take(0)).toBe(0);
+        expect(await bucket.take(0)).toBe(60000);
+    });
+
+    it('should wait for a token to refill within maxWait', async () => {
+        vi.useFakeTimers();
+        const bucket = new TokenBucket({ maxTokens: 1, refillRate: 10, refillInterval: 'second' });
+        await bucket.take();
+
+        let taken = false;
+        const pending = bucket.take(1000).then(wait => {
+            taken = wait === 0;
+        });
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(taken).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+        await pending;
+        expect(taken).toBe(true);
+    });
+
+    it('should stagger concurrent waiters', async () => {
+        vi.useFakeTimers();
+        const bucket = new TokenBucket({ maxTokens: 1, refillRate: 1, refillInterval: 'second' });
+        await bucket.take();
+
+        expect(await Promise.race([bucket.take(1500), Promise.resolve('pending')])).toBe('pending');
+        // The first waiter reserved the next token, so the second would wait two intervals
+        expect(await bucket.take(1500)).toBe(2000);
+    });
+
+    it('should refill over time without exceeding capacity', async () => {
+        vi.useFakeTimers();
+        const bucket = new TokenBucket({ maxTokens: 2, refillRate: 1, refillInterval: 'second' });
+        await bucket.take(0);
+        await bucket.take(0);
+
+        vi.advanceTimersByTime(10000);
+
+        expect(await bucket.take(0)).toBe(0);
+        expect(await bucket.take(0)).toBe(0);
+        expect(await bucket.take(0)).toBe(1000);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Client-side rate limiting for batch sends, driven by the provider's
+ * RateLimitConfig.
+ */
+
+import type { RateLimitConfig } from '@simplens/sdk';
+
+/**
+ * Length of each refill interval in milliseconds
+ */
+export const REFILL_INTERVALS: Record<NonNullable<RateLimitConfig['refillInterval']>, number> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Token bucket holding up to `maxTokens`, refilled continuously at
+ * `refillRate` tokens per `refillInterval` (default: second). Starts full.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt = Date.now();
+    private readonly capacity: number;
+    private readonly msPerToken: number;
+
+    constructor(config: RateLimitConfig) {
+        this.capacity = config.maxTokens;
+        this.tokens = config.maxTokens;
+        this.msPerToken = REFILL_INTERVALS[config.refillInterval || 'second'] / config.refillRate;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / this.msPerToken);
+        this.updatedAt = now;
+    }
+
+    /**
+     * Takes a token, waiting for one to refill if none is available.
+     * Concurrent callers reserve tokens in order, so waits are staggered.
+     *
+     * @param maxWaitMs - Longest acceptable wait
+     * @returns 0 once a token was taken, or the required wait in milliseconds
+     *          if it exceeds `maxWaitMs` (no token is taken)
+     */
+    async take(maxWaitMs = Infinity): Promise<number> {
+        this.refill();
+
+        const wait = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.msPerToken);
+        if (wait > maxWaitMs) {
+            return wait;
+        }
+
+        this.tokens -= 1;
+        if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        return 0;
+    }
+}
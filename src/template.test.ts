@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { render, renderTemplate, replaceTemplateVariables, escapeHtml } from './template.js';
+
+describe('replaceTemplateVariables', () => {
+    it('should replace all four simple patterns', () => {
+        expect(replaceTemplateVariables('{{a}} ${b} {c} $d', { a: 1, b: 2, c: 3, d: 4 })).toBe('1 2 3 4');
+    });
+
+    it('should not reach nested values', () => {
+        expect(replaceTemplateVariables('{{user.name}}', { user: { name: 'Ann' } })).toBe('{{user.name}}');
+    });
+
+    it('should not resolve inherited properties', () => {
+        expect(replaceTemplateVariables('{toString} {{constructor}}', {})).toBe('{toString} {{constructor}}');
+    });
+});
+
+describe('renderTemplate', () => {
+    it('should resolve dotted paths', () => {
+        expect(renderTemplate('Hi {{ user.name }} ({{user.tags.0}})', {
+            user: { name: 'Ann', tags: ['vip'] },
+        })).toBe('Hi Ann (vip)');
+    });
+
+    it('should render missing values as empty strings', () => {
+        expect(renderTemplate('[{{ missing.value }}]', {})).toBe('[]');
+    });
+
+    it('should apply default values', () => {
+        expect(renderTemplate('Hi {{ name | default: "friend" }}', {})).toBe('Hi friend');
+        expect(renderTemplate('Hi {{ name | default: "friend" }}', { name: 'Bo' })).toBe('Hi Bo');
+    });
+
+    it('should chain filters and ignore pipes inside quotes', () => {
+        expect(renderTemplate('{{ name | default: "a|b" | upper }}', {})).toBe('A|B');
+    });
+
+    it('should format numbers, currency and dates', () => {
+        const options = { locale: 'en-US', timeZone: 'UTC' };
+        expect(renderTemplate('{{ n | number: 2 }}', { n: 1234.5 }, options)).toBe('1,234.50');
+        expect(renderTemplate('{{ n | currency }}', { n: 9.5 }, options)).toBe('$9.50');
+        expect(renderTemplate('{{ n | currency: "EUR" }}', { n: 9.5 }, options)).toBe('€9.50');
+        expect(renderTemplate('{{ d | date: "long" }}', { d: '2024-03-05T12:00:00Z' }, options)).toBe('March 5, 2024');
+        expect(renderTemplate('{{ d | date: "iso" }}', { d: new Date('2024-03-05T12:00:00Z') }, options))
+            .toBe('2024-03-05T12:00:00.000Z');
+    });
+
+    it('should render if/else and unless sections', () => {
+        const template = '{{#if vip}}VIP{{else}}Regular{{/if}}{{#unless paid}} (unpaid){{/unless}}';
+        expect(renderTemplate(template, { vip: true, paid: true })).toBe('VIP');
+        expect(renderTemplate(template, { vip: false, paid: false })).toBe('Regular (unpaid)');
+    });
+
+    it('should treat empty arrays as falsy', () => {
+        expect(renderTemplate('{{#if items}}has{{else}}none{{/if}}', { items: [] })).toBe('none');
+    });
+
+    it('should loop over arrays with loop variables and parent scope access', () => {
+        const template = '{{#each items}}{{@index}}:{{ name }}@{{ currency }}{{#unless @last}}, {{/unless}}{{/each}}';
+        expect(renderTemplate(template, {
+            currency: 'USD',
+            items: [{ name: 'Pen' }, { name: 'Ink' }],
+        })).toBe('0:Pen@USD, 1:Ink@USD');
+    });
+
+    it('should loop over primitive arrays and objects', () => {
+        expect(renderTemplate('{{#each tags}}<{{this}}>{{/each}}', { tags: ['a', 'b'] })).toBe('<a><b>');
+        expect(renderTemplate('{{#each totals}}{{@key}}={{this}};{{/each}}', { totals: { x: 1, y: 2 } })).toBe('x=1;y=2;');
+    });
+
+    it('should render the else branch of an empty loop', () => {
+        expect(renderTemplate('{{#each items}}x{{else}}empty{{/each}}', { items: [] })).toBe('empty');
+    });
+
+    it('should escape values in HTML mode unless triple-braced', () => {
+        const variables = { name: '<script>alert("x")</script>', html: '<b>bold</b>' };
+        expect(renderTemplate('<p>{{ name }}</p>{{{ html }}}', variables, { escape: 'html' }))
+            .toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p><b>bold</b>');
+        expect(renderTemplate('{{ name }}', variables)).toBe('<script>alert("x")</script>');
+    });
+
+    it('should reject malformed templates and unknown filters', () => {
+        expect(() => renderTemplate('{{#if a}}open', {})).toThrow(expect.objectContaining({ code: 'TEMPLATE_ERROR' }));
+        expect(() => renderTemplate('{{#if a}}x{{/each}}', {})).toThrow('Unexpected {{/each}}');
+        expect(() => renderTemplate('{{ a | shout }}', {})).toThrow('Unknown template filter "shout"');
+        expect(() => renderTemplate('{{ a | constructor }}', {})).toThrow('Unknown template filter "constructor"');
+    });
+
+    it('should report invalid filter arguments as non-retryable template errors', () => {
+        expect(() => renderTemplate('{{ a | currency: "XX" }}', { a: 5 }))
+            .toThrow(expect.objectContaining({ code: 'TEMPLATE_ERROR', retryable: false }));
+        expect(() => renderTemplate('{{ a | currency: "XX" }}', { a: 5 })).toThrow('Template filter "currency" failed');
+        expect(() => renderTemplate('{{ d | date: "foo" }}', { d: '2024-03-05T12:00:00Z' }))
+            .toThrow(expect.objectContaining({ code: 'TEMPLATE_ERROR', retryable: false }));
+    });
+
+    it('should not resolve inherited properties', () => {
+        expect(renderTemplate('[{{ constructor }}][{{ user.toString }}]', { user: {} })).toBe('[][]');
+    });
+});
+
+describe('render', () => {
+    it('should report missing variables with the simple engine', () => {
+        expect(render('Hi {{name}}, ${order} costs $20 or $price', { name: 'Ann' })).toEqual({
+            output: 'Hi Ann, ${order} costs $20 or $price',
+            missing: ['order', 'price'],
+        });
+    });
+
+    it('should report missing paths with the template engine', () => {
+        const result = render(
+            '{{ user.name }} {{ nick | default: "-" }}{{#if vip}}{{ tier }}{{/if}}{{#each items}}{{ sku }}{{/each}}',
+            { user: {}, vip: true, items: [{ sku: 'A1' }, {}] },
+            { engine: 'template' }
+        );
+
+        expect(result.output).toBe(' -A1');
+        expect(result.missing).toEqual(['user.name', 'tier', 'sku']);
+    });
+
+    it('should strip line breaks from injected values in header mode', () => {
+        const variables = { name: 'Ann\r\nBcc: victim@example.com' };
+        expect(render('Hi {{name}}', variables, { escape: 'header' }).output).toBe('Hi Ann Bcc: victim@example.com');
+        expect(render('Hi {{{ name }}} & {{ name }}', variables, { engine: 'template', escape: 'header' }).output)
+            .toBe('Hi Ann Bcc: victim@example.com & Ann Bcc: victim@example.com');
+    });
+
+    it('should report inherited property names as missing', () => {
+        expect(render('{toString}', {}).missing).toEqual(['toString']);
+        expect(render('{{ constructor }}', {}, { engine: 'template' }).missing).toEqual(['constructor']);
+    });
+
+    it('should not report section conditions as missing', () => {
+        expect(render('{{#if promo}}{{ promo }}{{/if}}', {}, { engine: 'template' }).missing).toEqual([]);
+    });
+});
+
+describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+        expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+});
@@ -0,0 +1,475 @@
+/**
+ * Template rendering for subjects and message bodies.
+ *
+ * Two engines are available, selected with `options.templating.engine`:
+ * - simple:   flat `{{var}}`, `${var}`, `{var}` and `$var` substitution
+ *             (the original behaviour, and the default)
+ * - template: a small Handlebars-style language with dotted paths, filters,
+ *             `{{#if}}`/`{{#unless}}`/`{{#each}}` sections and HTML escaping
+ */
+
+import { DeliveryError } from './errors.js';
+
+/**
+ * Templating options, configured under `options.templating`
+ */
+export interface TemplatingOptions {
+    /** Template engine to use (default: simple) */
+    engine?: 'simple' | 'template';
+    /** Locale for date/number/currency filters (default: en-US) */
+    locale?: string;
+    /** Time zone for the date filter (default: the process time zone) */
+    timeZone?: string;
+    /** Default currency code for the currency filter (default: USD) */
+    currency?: string;
+    /**
+     * Handling of placeholders whose variable is missing (default: ignore).
+     * `warn` logs them, `error` fails the send with MISSING_VARIABLES.
+     */
+    missingVariables?: 'ignore' | 'warn' | 'error';
+}
+
+/**
+ * Options for a single render call
+ */
+export interface RenderOptions extends TemplatingOptions {
+    /**
+     * Escaping applied to injected values. `html` escapes `{{ }}` output
+     * (`{{{ }}}` stays raw); `header` strips CR/LF from every value so it
+     * cannot inject extra header lines.
+     */
+    escape?: 'html' | 'header' | 'none';
+}
+
+/**
+ * Rendered output together with the names of unresolved variables
+ */
+export interface RenderResult {
+    output: string;
+    missing: string[];
+}
+
+/**
+ * Replaces template variables in a string using multiple common patterns.
+ *
+ * Supported patterns:
+ * - {{variable}} - Handlebars/Mustache style
+ * - ${variable}  - ES6 template literal style
+ * - {variable}   - Simple brace style
+ * - $variable    - Shell/PHP style (word characters only)
+ *
+ * Names starting with a digit are never reported as missing, so prices
+ * like "$20" are not mistaken for variables.
+ * 
+ * @param template - The template string containing variables
+ * @param variables - Record of variable names to values
+ * @param options - Optional collector for names without a value, and escaping for values
+ * @returns The template with all variables replaced
+ */
+export function replaceTemplateVariables(
+    template: string,
+    variables: Record<string, unknown>,
+    options: { missing?: Set<string>; escape?: RenderOptions['escape'] } = {}
+): string {
+    const { missing, escape = 'none' } = options;
+    let result = template;
+
+    // Define all supported patterns with their regex
+    // Order matters: more specific patterns first to avoid partial matches
+    const patterns = [
+        /\{\{(\w+)\}\}/g,  // {{variable}}
+        /\$\{(\w+)\}/g,    // ${variable}
+        /\{(\w+)\}/g,      // {variable}
+        /\$(\w+)/g,        // $variable
+    ];
+
+    for (const pattern of patterns) {
+        result = result.replace(pattern, (match, varName) => {
+            if (Object.hasOwn(variables, varName)) {
+                return escapeValue(String(variables[varName]), escape);
+            }
+            if (missing && !/^\d/.test(varName)) {
+                missing.add(varName);
+            }
+            return match; // Leave unmatched patterns as-is
+        });
+    }
+
+    return result;
+}
+
+// ---------------------------------------------------------------------------
+// Template engine
+// ---------------------------------------------------------------------------
+
+type Node =
+    | { type: 'text'; value: string }
+    | { type: 'output'; expression: string; raw: boolean }
+    | { type: 'block'; name: 'if' | 'unless' | 'each'; expression: string; body: Node[]; inverse: Node[] };
+
+/**
+ * A lookup scope; `vars` holds `@index`-style data for `each` iterations
+ */
+interface Scope {
+    value: unknown;
+    vars: Record<string, unknown>;
+    parent: Scope | null;
+}
+
+type Filter = (value: unknown, args: unknown[], options: RenderOptions) => unknown;
+
+/**
+ * State shared across a single render
+ */
+interface RenderContext {
+    options: RenderOptions;
+    missing: Set<string>;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([\s\S]+?)\s*\}\}/g;
+
+/**
+ * Parses a template into a node tree
+ */
+function parse(template: string): Node[] {
+    const root: Node[] = [];
+    const stack: Array<Extract<Node, { type: 'block' }> & { inElse: boolean }> = [];
+    const current = () => {
+        const top = stack[stack.length - 1];
+        return top ? (top.inElse ? top.inverse : top.body) : root;
+    };
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        if (match.index > lastIndex) {
+            current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+        }
+        lastIndex = match.index + match[0].length;
+
+        if (match[1] !== undefined) {
+            current().push({ type: 'output', expression: match[1], raw: true });
+            continue;
+        }
+
+        const tag = match[2];
+        const open = /^#(if|unless|each)\s+([\s\S]+)$/.exec(tag);
+        const close = /^\/(if|unless|each)$/.exec(tag);
+
+        if (open) {
+            const block = {
+                type: 'block' as const,
+                name: open[1] as 'if' | 'unless' | 'each',
+                expression: open[2].trim(),
+                body: [],
+                inverse: [],
+                inElse: false,
+            };
+            current().push(block);
+            stack.push(block);
+        } else if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.inElse) {
+                throw new DeliveryError('TEMPLATE_ERROR', 'Unexpected {{else}} in template');
+            }
+            top.inElse = true;
+        } else if (close) {
+            const top = stack.pop();
+            if (!top || top.name !== close[1]) {
+                throw new DeliveryError('TEMPLATE_ERROR', `Unexpected {{/${close[1]}}} in template`);
+            }
+        } else {
+            current().push({ type: 'output', expression: tag, raw: false });
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new DeliveryError('TEMPLATE_ERROR', `Unclosed {{#${stack[stack.length - 1].name}}} in template`);
+    }
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+
+    return root;
+}
+
+/**
+ * Splits `a | b: "x|y"` on pipes that are not inside quotes
+ */
+function splitOutside(input: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(input.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    parts.push(input.slice(start).trim());
+
+    return parts;
+}
+
+/**
+ * Resolves a dotted path (`user.name`, `items.0`, `this`, `@index`) against the scope chain
+ */
+function lookup(path: string, scope: Scope): { found: boolean; value: unknown } {
+    if (path === 'this' || path === '.') {
+        return { found: true, value: scope.value };
+    }
+
+    const segments = path.replace(/^this\./, '').split('.');
+    const [head, ...rest] = segments;
+    const explicitThis = path.startsWith('this.');
+
+    for (let s: Scope | null = scope; s; s = explicitThis ? null : s.parent) {
+        let base: { found: boolean; value: unknown } = { found: false, value: undefined };
+
+        if (head.startsWith('@')) {
+            if (Object.hasOwn(s.vars, head.slice(1))) base = { found: true, value: s.vars[head.slice(1)] };
+        } else if (s.value !== null && typeof s.value === 'object' && Object.hasOwn(s.value, head)) {
+            base = { found: true, value: (s.value as Record<string, unknown>)[head] };
+        }
+
+        if (!base.found) {
+            continue;
+        }
+
+        let value = base.value;
+        for (const segment of rest) {
+            if (value === null || typeof value !== 'object' || !Object.hasOwn(value, segment)) {
+                return { found: false, value: undefined };
+            }
+            value = (value as Record<string, unknown>)[segment];
+        }
+        return { found: true, value };
+    }
+
+    return { found: false, value: undefined };
+}
+
+/**
+ * Evaluates a literal (`"text"`, `'text'`, number, true/false/null) or a path
+ */
+function evaluateOperand(operand: string, scope: Scope): { found: boolean; value: unknown } {
+    if (/^(["']).*\1$/s.test(operand)) {
+        return { found: true, value: operand.slice(1, -1) };
+    }
+    if (/^-?\d+(\.\d+)?$/.test(operand)) {
+        return { found: true, value: Number(operand) };
+    }
+    if (operand === 'true' || operand === 'false') {
+        return { found: true, value: operand === 'true' };
+    }
+    if (operand === 'null') {
+        return { found: true, value: null };
+    }
+    return lookup(operand, scope);
+}
+
+function toDate(value: unknown): Date | null {
+    const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+const FILTERS: Record<string, Filter> = {
+    default: (value, [fallback]) => (value === undefined || value === null || value === '' ? fallback : value),
+    upper: value => String(value ?? '').toUpperCase(),
+    lower: value => String(value ?? '').toLowerCase(),
+    trim: value => String(value ?? '').trim(),
+    date: (value, [style = 'medium'], options) => {
+        const date = toDate(value);
+        if (!date) return value;
+        if (style === 'iso') return date.toISOString();
+        return new Intl.DateTimeFormat(options.locale || 'en-US', {
+            dateStyle: style as 'full' | 'long' | 'medium' | 'short',
+            ...(options.timeZone && { timeZone: options.timeZone }),
+        }).format(date);
+    },
+    datetime: (value, [style = 'medium'], options) => {
+        const date = toDate(value);
+        if (!date) return value;
+        return new Intl.DateTimeFormat(options.locale || 'en-US', {
+            dateStyle: style as 'full' | 'long' | 'medium' | 'short',
+            timeStyle: 'short',
+            ...(options.timeZone && { timeZone: options.timeZone }),
+        }).format(date);
+    },
+    number: (value, [digits], options) => {
+        const number = Number(value);
+        if (value === null || value === '' || Number.isNaN(number)) return value;
+        const fraction = digits === undefined ? {} : { minimumFractionDigits: Number(digits), maximumFractionDigits: Number(digits) };
+        return new Intl.NumberFormat(options.locale || 'en-US', fraction).format(number);
+    },
+    currency: (value, [code], options) => {
+        const number = Number(value);
+        if (value === null || value === '' || Number.isNaN(number)) return value;
+        return new Intl.NumberFormat(options.locale || 'en-US', {
+            style: 'currency',
+            currency: String(code || options.currency || 'USD'),
+        }).format(number);
+    },
+};
+
+/**
+ * Evaluates an output expression: a path or literal followed by `| filter: args` stages.
+ * When `missing` is given, an unresolved path without a `default` filter is recorded in it.
+ */
+function evaluate(expression: string, scope: Scope, options: RenderOptions, missing?: Set<string>): unknown {
+    const [operand, ...filters] = splitOutside(expression, '|');
+    const resolved = evaluateOperand(operand, scope);
+    let value = resolved.value;
+
+    if (missing && !resolved.found && !filters.some(stage => /^default\b/.test(stage))) {
+        missing.add(operand);
+    }
+
+    for (const stage of filters) {
+        const colon = stage.indexOf(':');
+        const name = (colon === -1 ? stage : stage.slice(0, colon)).trim();
+        const filter = Object.hasOwn(FILTERS, name) ? FILTERS[name] : undefined;
+
+        if (!filter) {
+            throw new DeliveryError('TEMPLATE_ERROR', `Unknown template filter "${name}"`);
+        }
+
+        const args = colon === -1
+            ? []
+            : splitOutside(stage.slice(colon + 1), ',').map(arg => evaluateOperand(arg, scope).value);
+        try {
+            value = filter(value, args, options);
+        } catch (err) {
+            // e.g. an unknown currency code or date style; retrying cannot fix the template
+            throw new DeliveryError('TEMPLATE_ERROR', `Template filter "${name}" failed: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+
+    return value;
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(stringify).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Escapes a string for use in HTML text or attribute values
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Removes line breaks so a value is safe inside a single header line
+ */
+export function stripLineBreaks(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
+
+function escapeValue(value: string, escape: RenderOptions['escape']): string {
+    if (escape === 'html') return escapeHtml(value);
+    if (escape === 'header') return stripLineBreaks(value);
+    return value;
+}
+
+function isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], scope: Scope, context: RenderContext): string {
+    const { options } = context;
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.value;
+        } else if (node.type === 'output') {
+            const text = stringify(evaluate(node.expression, scope, options, context.missing));
+            output += node.raw && options.escape === 'html' ? text : escapeValue(text, options.escape);
+        } else if (node.name === 'each') {
+            const value = evaluate(node.expression, scope, options);
+            const entries: Array<[string | number, unknown]> = Array.isArray(value)
+                ? value.map((item, index) => [index, item])
+                : value !== null && typeof value === 'object'
+                    ? Object.entries(value)
+                    : [];
+
+            if (entries.length === 0) {
+                output += renderNodes(node.inverse, scope, context);
+                continue;
+            }
+
+            entries.forEach(([key, item], index) => {
+                const vars = { index, key, first: index === 0, last: index === entries.length - 1 };
+                output += renderNodes(node.body, { value: item, vars, parent: scope }, context);
+            });
+        } else {
+            const truthy = isTruthy(evaluate(node.expression, scope, options));
+            const show = node.name === 'if' ? truthy : !truthy;
+            output += renderNodes(show ? node.body : node.inverse, scope, context);
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Renders a template with the template engine.
+ *
+ * Supported syntax:
+ * - {{ user.name }}                  - Dotted path lookup, HTML-escaped when `escape` is 'html'
+ * - {{{ html }}}                     - Unescaped output
+ * - {{ name | default: "friend" }}   - Filters: default, upper, lower, trim, date, datetime, number, currency
+ * - {{#if cond}}..{{else}}..{{/if}}  - Conditionals (also {{#unless}})
+ * - {{#each items}}..{{/each}}       - Loops over arrays or objects, with `this`, @index, @key, @first, @last
+ *
+ * @param template - The template source
+ * @param variables - Values available to the template
+ * @param options - Locale, escaping and formatting options
+ * @returns The rendered output
+ * @throws DeliveryError TEMPLATE_ERROR when the template is malformed
+ */
+export function renderTemplate(
+    template: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+): string {
+    return renderNodes(parse(template), { value: variables, vars: {}, parent: null }, { options, missing: new Set() });
+}
+
+/**
+ * Renders a template with the configured engine and reports unresolved variables.
+ * Section conditions (`{{#if x}}`, `{{#each x}}`) and values with a `default`
+ * filter are optional by design and never reported.
+ *
+ * @param template - The template source
+ * @param variables - Values available to the template
+ * @param options - Engine, locale and escaping options
+ * @returns The rendered output and the names of missing variables
+ */
+export function render(
+    template: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+): RenderResult {
+    const missing = new Set<string>();
+    const output = options.engine === 'template'
+        ? renderNodes(parse(template), { value: variables, vars: {}, parent: null }, { options, missing })
+        : replaceTemplateVariables(template, variables, { missing, escape: options.escape });
+
+    return { output, missing: [...missing] };
+}
@@ -0,0 +1,64 @@
+/**
+ * Tracing: the subset of the OpenTelemetry tracer API the provider uses, so
+ * a tracer from `@opentelemetry/api` (`trace.getTracer(...)`) can be passed
+ * in directly without this package depending on it.
+ */
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * OpenTelemetry `SpanStatusCode` values
+ */
+export const SPAN_STATUS_OK = 1;
+export const SPAN_STATUS_ERROR = 2;
+
+export interface Span {
+    setAttribute(key: string, value: SpanAttributeValue): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(): void;
+}
+
+export interface Tracer {
+    startSpan(name: string, options?: { attributes?: Record<string, SpanAttributeValue> }): Span;
+}
+
+const noopSpan: Span = {
+    setAttribute: () => noopSpan,
+    setStatus: () => noopSpan,
+    end: () => { },
+};
+
+export const noopTracer: Tracer = {
+    startSpan: () => noopSpan,
+};
+
+/**
+ * Wraps a host-supplied tracer so a throwing tracer or span is reported
+ * through `onError` instead of failing the send it traces
+ */
+export function guardTracer(tracer: Tracer, onError: (err: unknown) => void): Tracer {
+    const guard = (call: () => unknown) => {
+        try {
+            call();
+        } catch (err) {
+            onError(err);
+        }
+    };
+    return {
+        startSpan: (name, options) => {
+            let span: Span;
+            try {
+                span = tracer.startSpan(name, options);
+            } catch (err) {
+                onError(err);
+                return noopSpan;
+            }
+            const guarded: Span = {
+                setAttribute: (key, value) => guard(() => span.setAttribute(key, value)),
+                setStatus: status => guard(() => span.setStatus(status)),
+                end: () => guard(() => span.end()),
+            };
+            return guarded;
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildConnectionOptions, isSocksProxy, resolveEndpoint } from './transport.js';
+
+// Mock @simplens/sdk
+vi.mock('@simplens/sdk', async () => {
+    const { z } = await import('zod');
+    return { z };
+});
+
+const CA = '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\n';
+
+describe('resolveEndpoint', () => {
+    it('should prefer credentials, then options, then Gmail', () => {
+        expect(resolveEndpoint({ EMAIL_HOST: 'a.example.com', EMAIL_PORT: '465' }, { EMAIL_HOST: 'b.example.com', EMAIL_PORT: '25' }))
+            .toEqual({ host: 'a.example.com', port: 465 });
+        expect(resolveEndpoint({}, { EMAIL_HOST: 'b.example.com', EMAIL_PORT: 25 })).toEqual({ host: 'b.example.com', port: 25 });
+        expect(resolveEndpoint({}, undefined)).toEqual({ host: 'smtp.gmail.com', port: 587 });
+    });
+
+    it('should reject invalid ports', () => {
+        expect(() => resolveEndpoint({ EMAIL_PORT: 'smtp' }, undefined)).toThrow('EMAIL_PORT must be a port number, got "smtp"');
+        expect(() => resolveEndpoint({ EMAIL_PORT: '70000' }, undefined)).toThrow('EMAIL_PORT must be a port number');
+    });
+});
+
+describe('buildConnectionOptions', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'transport-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should apply default timeouts unless overridden', async () => {
+        expect(await buildConnectionOptions({ greetingTimeout: 5000, secure: true })).toEqual({
+            connectionTimeout: 10000,
+            greetingTimeout: 5000,
+            socketTimeout: 30000,
+        });
+    });
+
+    it('should load PEM values given as file paths', async () => {
+        const caPath = path.join(dir, 'ca.pem');
+        await writeFile(caPath, CA);
+
+        const options = await buildConnectionOptions({
+            tls: { ca: [caPath, CA], cert: CA, key: caPath, passphrase: 'secret' },
+        });
+
+        expect(options.tls).toEqual({ ca: [CA, CA], cert: CA, key: CA, passphrase: 'secret' });
+    });
+
+    it('should report unreadable PEM files', async () => {
+        await expect(buildConnectionOptions({ tls: { ca: path.join(dir, 'missing.pem') } }))
+            .rejects.toThrow(`Could not read ${path.join(dir, 'missing.pem')}`);
+    });
+});
+
+describe('isSocksProxy', () => {
+    it('should detect SOCKS proxy URLs', () => {
+        expect(isSocksProxy('socks5://proxy:1080')).toBe(true);
+        expect(isSocksProxy('http://proxy:3128')).toBe(false);
+        expect(isSocksProxy(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * SMTP connection settings: host, port, TLS and proxy.
+ *
+ * The host and port come from the EMAIL_HOST/EMAIL_PORT credentials (per
+ * account), falling back to the options of the same name and then Gmail.
+ * Everything else is configured under `options.transport`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { z } from '@simplens/sdk';
+
+export const DEFAULT_HOST = 'smtp.gmail.com';
+export const DEFAULT_PORT = 587;
+
+/**
+ * A PEM value given inline or as a path to a PEM file
+ */
+const pemSchema = z.string().min(1);
+
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:'];
+
+function protocolOf(url: string): string | undefined {
+    try {
+        return new URL(url).protocol;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Transport options schema, for `options.transport`
+ */
+export const transportOptionsSchema = z.object({
+    /** Connect with implicit TLS (default: true on port 465) */
+    secure: z.boolean().optional(),
+    /** Fail unless the server upgrades the connection with STARTTLS */
+    requireTLS: z.boolean().optional(),
+    tls: z.object({
+        minVersion: z.enum(['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3']).optional(),
+        /** CA certificates to trust, PEM or file paths */
+        ca: z.union([pemSchema, z.array(pemSchema).min(1)]).optional(),
+        /** Client certificate, PEM or file path */
+        cert: pemSchema.optional(),
+        /** Client certificate key, PEM or file path */
+        key: pemSchema.optional(),
+        passphrase: z.string().optional(),
+        rejectUnauthorized: z.boolean().optional(),
+        /** Server name for SNI and certificate checks, when connecting by IP */
+        servername: z.string().min(1).optional(),
+    }).strict()
+        .refine(tls => (tls.cert === undefined) === (tls.key === undefined), { message: 'cert and key must be given together' })
+        .optional(),
+    /** Milliseconds to wait for the connection to be established (default: 10000) */
+    connectionTimeout: z.number().int().positive().optional(),
+    /** Milliseconds to wait for the greeting after connecting (default: 10000) */
+    greetingTimeout: z.number().int().positive().optional(),
+    /** Milliseconds of inactivity before the connection is closed (default: 30000) */
+    socketTimeout: z.number().int().positive().optional(),
+    /** Local interface to connect from */
+    localAddress: z.string().ip().optional(),
+    /** Hostname announced in EHLO (default: the machine's hostname) */
+    name: z.string().min(1).optional(),
+    /** HTTP(S) or SOCKS proxy URL, e.g. `socks5://proxy.internal:1080` */
+    proxy: z.string().url()
+        .refine(url => PROXY_PROTOCOLS.includes(protocolOf(url) ?? ''), { message: 'proxy must be an http(s) or socks URL' })
+        .optional(),
+}).strict();
+
+export type TransportOptions = z.infer<typeof transportOptionsSchema>;
+
+/**
+ * Nodemailer SMTP options; `proxy` is handled by nodemailer but missing from its types
+ */
+export type ConnectionOptions = SMTPTransport.Options & { proxy?: string };
+
+/**
+ * Reads a PEM value that is given as a file path
+ */
+async function loadPem(value: string): Promise<string> {
+    if (value.includes('-----BEGIN')) {
+        return value;
+    }
+    try {
+        return await readFile(value, 'utf8');
+    } catch (err) {
+        throw new Error(`Could not read ${value}: ${err instanceof Error ? err.message : err}`);
+    }
+}
+
+/**
+ * Resolves host and port for an account: its credentials, then the
+ * options, then Gmail
+ */
+export function resolveEndpoint(
+    credentials: Record<string, string>,
+    options: Record<string, unknown> | undefined
+): { host: string; port: number } {
+    const host = credentials['EMAIL_HOST'] || options?.['EMAIL_HOST'] as string | undefined || DEFAULT_HOST;
+    const portValue = credentials['EMAIL_PORT'] || options?.['EMAIL_PORT'] as string | number | undefined || DEFAULT_PORT;
+    const port = Number(portValue);
+
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`EMAIL_PORT must be a port number, got ${JSON.stringify(portValue)}`);
+    }
+    return { host, port };
+}
+
+/**
+ * Builds the nodemailer connection options shared by all accounts (all but
+ * host, port and auth), loading PEM files for the CA bundle and client
+ * certificate
+ */
+export async function buildConnectionOptions(options: TransportOptions): Promise<ConnectionOptions> {
+    const { tls, secure: _secure, ...connection } = options;
+
+    let tlsOptions: SMTPTransport.Options['tls'];
+    if (tls) {
+        const { ca, cert, key, ...rest } = tls;
+        tlsOptions = {
+            ...rest,
+            ...(ca !== undefined && { ca: await Promise.all((Array.isArray(ca) ? ca : [ca]).map(loadPem)) }),
+            ...(cert !== undefined && { cert: await loadPem(cert) }),
+            ...(key !== undefined && { key: await loadPem(key) }),
+        };
+    }
+
+    return {
+        connectionTimeout: 10000,
+        greetingTimeout: 10000,
+        socketTimeout: 30000,
+        ...connection,
+        ...(tlsOptions && { tls: tlsOptions }),
+    };
+}
+
+/**
+ * Whether the proxy URL needs the SOCKS client module
+ */
+export function isSocksProxy(proxy: string | undefined): boolean {
+    return proxy !== undefined && Boolean(protocolOf(proxy)?.startsWith('socks'));
+}